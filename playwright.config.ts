@@ -1,6 +1,9 @@
 import { defineConfig, devices } from "@playwright/test";
 import { OrtoniReportConfig } from "ortoni-report";
 import * as os from "os";
+import EnvironmentDetector from "./src/configuration/detector/environmentDetector";
+import StageProjectFactory from "./src/configuration/environment/stages/stageProjectFactory";
+import type { StageTestOptions } from "./src/configuration/environment/types/environment.types";
 
 const reportConfig: OrtoniReportConfig = {
   open: process.env.CI ? "never" : "always",
@@ -22,9 +25,10 @@ const reportConfig: OrtoniReportConfig = {
 /**
  * See https://playwright.dev/docs/test-configuration.
  */
-export default defineConfig({
+export default defineConfig<object, StageTestOptions>({
   testDir: "./tests",
   globalSetup: "./src/configuration/environment/manager/global/globalSetup.ts",
+  globalTeardown: "./src/configuration/environment/manager/global/globalTeardown.ts",
   /* Run tests in files in parallel */
   fullyParallel: true,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
@@ -42,6 +46,8 @@ export default defineConfig({
         ["junit", { outputFile: "results.xml" }],
         ["dot"],
       ],
+  /* Tag the report with the CI build it ran in: provider, build, branch, commit and pull request */
+  metadata: { ...EnvironmentDetector.getCIContext() },
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
     /* Base URL to use in actions like `await page.goto('')`. */
@@ -51,8 +57,8 @@ export default defineConfig({
     trace: "on-first-retry",
   },
 
-  /* Configure projects for major browsers */
-  projects: [
+  /* Configure projects for major browsers, once per stage in ENV_STAGES (default: ENV) */
+  projects: StageProjectFactory.createProjects([
     {
       name: "chromium",
       use: { ...devices["Desktop Chrome"] },
@@ -86,7 +92,7 @@ export default defineConfig({
     //   name: 'Google Chrome',
     //   use: { ...devices['Desktop Chrome'], channel: 'chrome' },
     // },
-  ],
+  ]),
 
   /* Run your local dev server before starting the tests */
   // webServer: {
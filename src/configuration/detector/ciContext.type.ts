@@ -0,0 +1,32 @@
+/**
+ * CI service a build runs on; "generic" when only the CI variable is set
+ */
+export type CIProvider =
+  | "github-actions"
+  | "gitlab"
+  | "jenkins"
+  | "azure-pipelines"
+  | "circleci"
+  | "bitbucket"
+  | "teamcity"
+  | "buildkite"
+  | "travis"
+  | "generic";
+
+/**
+ * The CI build the process runs in. Fields the provider does not expose are left undefined.
+ */
+export interface CIContext {
+  provider: CIProvider;
+  buildId?: string;
+  buildUrl?: string;
+  branch?: string;
+  commitSha?: string;
+  pullRequestNumber?: number;
+
+  /**
+   * True when the build runs a pull request from a fork, whose code must not be trusted with
+   * secrets; undefined when neither the provider nor CI_IS_FORK tells
+   */
+  isFork?: boolean;
+}
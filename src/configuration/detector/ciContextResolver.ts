@@ -0,0 +1,314 @@
+import * as fs from "fs";
+import type { CIContext, CIProvider } from "./ciContext.type";
+
+type CIBuildDetails = Omit<CIContext, "provider">;
+
+/**
+ * The parts of a GitHub pull request event payload needed to tell a fork build apart
+ */
+interface GitHubPullRequest {
+  number?: number;
+  head?: { repo?: { full_name?: string } | null };
+}
+
+/**
+ * Reads the CI build details from the provider's variables. The logger tags its entries with
+ * them while it is being created, so this class neither logs nor uses the file managers.
+ */
+export default class CIContextResolver {
+  // Lets builds on providers that do not expose fork status declare it, e.g. CI_IS_FORK=false
+  private static readonly FORK_STATUS_VARIABLE = "CI_IS_FORK";
+
+  // Checked in order; the generic CI variable comes last because most providers also set it
+  private static readonly PROVIDER_VARIABLES: ReadonlyArray<readonly [CIProvider, string]> = [
+    ["github-actions", "GITHUB_ACTIONS"],
+    ["gitlab", "GITLAB_CI"],
+    ["jenkins", "JENKINS_URL"],
+    ["azure-pipelines", "TF_BUILD"],
+    ["circleci", "CIRCLECI"],
+    ["bitbucket", "BITBUCKET_BUILD_NUMBER"],
+    ["teamcity", "TEAMCITY_VERSION"],
+    ["buildkite", "BUILDKITE"],
+    ["travis", "TRAVIS"],
+    ["generic", "CI"],
+  ];
+
+  /**
+   * Detects the CI provider from the variables it sets
+   * @returns The provider, or undefined outside CI
+   */
+  public static getProvider(): CIProvider | undefined {
+    return this.PROVIDER_VARIABLES.find(([, variable]) => process.env[variable])?.[0];
+  }
+
+  /**
+   * Reads the build details of the detected CI provider
+   * @returns The CI context, or undefined outside CI
+   */
+  public static resolve(): CIContext | undefined {
+    const provider = this.getProvider();
+    if (!provider) {
+      return undefined;
+    }
+
+    const details = this.readBuildDetails(provider);
+    return { provider, ...details, isFork: details.isFork ?? this.readDeclaredForkStatus() };
+  }
+
+  // Private methods
+
+  private static readBuildDetails(provider: CIProvider): CIBuildDetails {
+    switch (provider) {
+      case "github-actions":
+        return this.readGitHubActions();
+      case "gitlab":
+        return this.readGitLab();
+      case "jenkins":
+        return this.readJenkins();
+      case "azure-pipelines":
+        return this.readAzurePipelines();
+      case "circleci":
+        return this.readCircleCI();
+      case "bitbucket":
+        return this.readBitbucket();
+      case "teamcity":
+        return this.readTeamCity();
+      case "buildkite":
+        return this.readBuildkite();
+      case "travis":
+        return this.readTravis();
+      case "generic":
+        return { isFork: false };
+    }
+  }
+
+  /**
+   * GitHub Actions exposes fork status only in the event payload. A pull request whose head
+   * repository was deleted is treated as a fork, one whose payload cannot be read as unknown.
+   */
+  private static readGitHubActions(): CIBuildDetails {
+    const repository = this.getVariable("GITHUB_REPOSITORY");
+    const runId = this.getVariable("GITHUB_RUN_ID");
+    const serverUrl = this.getVariable("GITHUB_SERVER_URL") ?? "https://github.com";
+    const pullRequest = this.readGitHubPullRequest();
+    const refPullRequestNumber = /^refs\/pull\/(\d+)\//.exec(this.getVariable("GITHUB_REF") ?? "");
+
+    return {
+      buildId: runId,
+      buildUrl:
+        repository && runId ? `${serverUrl}/${repository}/actions/runs/${runId}` : undefined,
+      branch: this.getVariable("GITHUB_HEAD_REF") ?? this.getVariable("GITHUB_REF_NAME"),
+      commitSha: this.getVariable("GITHUB_SHA"),
+      pullRequestNumber:
+        pullRequest?.number ?? this.parsePullRequestNumber(refPullRequestNumber?.[1]),
+      isFork:
+        pullRequest === null
+          ? undefined
+          : pullRequest !== undefined && pullRequest.head?.repo?.full_name !== repository,
+    };
+  }
+
+  /**
+   * Reads the pull request from the GitHub event payload
+   * @returns The pull request, null if the payload cannot be read, or undefined if the build
+   * was not triggered by a pull request event
+   */
+  private static readGitHubPullRequest(): GitHubPullRequest | null | undefined {
+    if (!this.getVariable("GITHUB_EVENT_NAME")?.startsWith("pull_request")) {
+      return undefined;
+    }
+
+    const eventPath = this.getVariable("GITHUB_EVENT_PATH");
+    if (!eventPath) {
+      return null;
+    }
+
+    try {
+      const event = JSON.parse(fs.readFileSync(eventPath, "utf8")) as {
+        pull_request?: GitHubPullRequest;
+      };
+      return event.pull_request ?? {};
+    } catch {
+      return null;
+    }
+  }
+
+  private static readGitLab(): CIBuildDetails {
+    const sourceProjectId = this.getVariable("CI_MERGE_REQUEST_SOURCE_PROJECT_ID");
+
+    return {
+      buildId: this.getVariable("CI_PIPELINE_ID"),
+      buildUrl: this.getVariable("CI_PIPELINE_URL"),
+      branch:
+        this.getVariable("CI_MERGE_REQUEST_SOURCE_BRANCH_NAME") ??
+        this.getVariable("CI_COMMIT_REF_NAME"),
+      commitSha: this.getVariable("CI_COMMIT_SHA"),
+      pullRequestNumber: this.parsePullRequestNumber(this.getVariable("CI_MERGE_REQUEST_IID")),
+      isFork:
+        sourceProjectId !== undefined &&
+        sourceProjectId !== this.getVariable("CI_MERGE_REQUEST_PROJECT_ID"),
+    };
+  }
+
+  /**
+   * Jenkins multibranch pipelines set CHANGE_FORK to the fork owner for pull requests from forks
+   */
+  private static readJenkins(): CIBuildDetails {
+    return {
+      buildId: this.getVariable("BUILD_NUMBER"),
+      buildUrl: this.getVariable("BUILD_URL"),
+      branch:
+        this.getVariable("CHANGE_BRANCH") ??
+        this.getVariable("BRANCH_NAME") ??
+        this.getVariable("GIT_BRANCH"),
+      commitSha: this.getVariable("GIT_COMMIT"),
+      pullRequestNumber: this.parsePullRequestNumber(this.getVariable("CHANGE_ID")),
+      isFork: this.getVariable("CHANGE_FORK") !== undefined,
+    };
+  }
+
+  private static readAzurePipelines(): CIBuildDetails {
+    const buildId = this.getVariable("BUILD_BUILDID");
+    const collectionUri = this.getVariable("SYSTEM_COLLECTIONURI");
+    const project = this.getVariable("SYSTEM_TEAMPROJECT");
+    const branch =
+      this.getVariable("SYSTEM_PULLREQUEST_SOURCEBRANCH") ?? this.getVariable("BUILD_SOURCEBRANCH");
+
+    return {
+      buildId,
+      buildUrl:
+        buildId && collectionUri && project
+          ? `${collectionUri.replace(/\/$/, "")}/${encodeURIComponent(project)}/_build/results?buildId=${buildId}`
+          : undefined,
+      branch: branch?.replace(/^refs\/heads\//, ""),
+      commitSha: this.getVariable("BUILD_SOURCEVERSION"),
+      pullRequestNumber: this.parsePullRequestNumber(
+        this.getVariable("SYSTEM_PULLREQUEST_PULLREQUESTNUMBER") ??
+          this.getVariable("SYSTEM_PULLREQUEST_PULLREQUESTID"),
+      ),
+      isFork: this.getVariable("SYSTEM_PULLREQUEST_ISFORK")?.toLowerCase() === "true",
+    };
+  }
+
+  /**
+   * CircleCI sets the CIRCLE_PR_* variables only for pull requests from forks
+   */
+  private static readCircleCI(): CIBuildDetails {
+    const forkPullRequestNumber = this.getVariable("CIRCLE_PR_NUMBER");
+    const pullRequestUrl = this.getVariable("CIRCLE_PULL_REQUEST");
+
+    return {
+      buildId: this.getVariable("CIRCLE_BUILD_NUM"),
+      buildUrl: this.getVariable("CIRCLE_BUILD_URL"),
+      branch: this.getVariable("CIRCLE_BRANCH"),
+      commitSha: this.getVariable("CIRCLE_SHA1"),
+      pullRequestNumber: this.parsePullRequestNumber(
+        forkPullRequestNumber ?? pullRequestUrl?.split("/").pop(),
+      ),
+      isFork: forkPullRequestNumber !== undefined,
+    };
+  }
+
+  /**
+   * Bitbucket Pipelines names neither the source nor the destination repository of a pull
+   * request, so fork status is known only for builds that are not pull requests
+   */
+  private static readBitbucket(): CIBuildDetails {
+    const pullRequestNumber = this.parsePullRequestNumber(this.getVariable("BITBUCKET_PR_ID"));
+    const buildNumber = this.getVariable("BITBUCKET_BUILD_NUMBER");
+    const origin = this.getVariable("BITBUCKET_GIT_HTTP_ORIGIN");
+
+    return {
+      buildId: buildNumber,
+      buildUrl: origin && buildNumber ? `${origin}/pipelines/results/${buildNumber}` : undefined,
+      branch: this.getVariable("BITBUCKET_BRANCH"),
+      commitSha: this.getVariable("BITBUCKET_COMMIT"),
+      pullRequestNumber,
+      isFork: pullRequestNumber === undefined ? false : undefined,
+    };
+  }
+
+  /**
+   * TeamCity passes only a few build parameters to the environment by default; branch, pull
+   * request and fork details have to be mapped as env.* parameters to be visible here, so fork
+   * status is unknown unless the build declares it
+   */
+  private static readTeamCity(): CIBuildDetails {
+    return {
+      buildId: this.getVariable("BUILD_NUMBER"),
+      commitSha: this.getVariable("BUILD_VCS_NUMBER"),
+    };
+  }
+
+  private static readBuildkite(): CIBuildDetails {
+    const pullRequestNumber = this.parsePullRequestNumber(
+      this.getVariable("BUILDKITE_PULL_REQUEST"),
+    );
+    const pullRequestRepo = this.getVariable("BUILDKITE_PULL_REQUEST_REPO");
+    const repo = this.getVariable("BUILDKITE_REPO");
+
+    return {
+      buildId: this.getVariable("BUILDKITE_BUILD_ID"),
+      buildUrl: this.getVariable("BUILDKITE_BUILD_URL"),
+      branch: this.getVariable("BUILDKITE_BRANCH"),
+      commitSha: this.getVariable("BUILDKITE_COMMIT"),
+      pullRequestNumber,
+      isFork:
+        pullRequestNumber !== undefined &&
+        !!pullRequestRepo &&
+        !!repo &&
+        this.normalizeRepositoryUrl(pullRequestRepo) !== this.normalizeRepositoryUrl(repo),
+    };
+  }
+
+  private static readTravis(): CIBuildDetails {
+    const pullRequestNumber = this.parsePullRequestNumber(this.getVariable("TRAVIS_PULL_REQUEST"));
+    const pullRequestSlug = this.getVariable("TRAVIS_PULL_REQUEST_SLUG");
+
+    return {
+      buildId: this.getVariable("TRAVIS_BUILD_ID"),
+      buildUrl: this.getVariable("TRAVIS_BUILD_WEB_URL"),
+      branch: this.getVariable("TRAVIS_PULL_REQUEST_BRANCH") ?? this.getVariable("TRAVIS_BRANCH"),
+      commitSha: this.getVariable("TRAVIS_COMMIT"),
+      pullRequestNumber,
+      isFork:
+        pullRequestNumber !== undefined &&
+        !!pullRequestSlug &&
+        pullRequestSlug !== this.getVariable("TRAVIS_REPO_SLUG"),
+    };
+  }
+
+  /**
+   * Reads the fork status a build declares in CI_IS_FORK, for providers that do not expose it
+   * @returns True or false as declared, or undefined if CI_IS_FORK is unset or not a boolean
+   */
+  private static readDeclaredForkStatus(): boolean | undefined {
+    const declared = this.getVariable(this.FORK_STATUS_VARIABLE)?.toLowerCase();
+    return declared === "true" || declared === "false" ? declared === "true" : undefined;
+  }
+
+  /**
+   * Reads a CI variable, treating an empty value as unset
+   */
+  private static getVariable(name: string): string | undefined {
+    return process.env[name]?.trim() || undefined;
+  }
+
+  /**
+   * Parses a pull request number; providers use values such as "false" outside pull requests
+   */
+  private static parsePullRequestNumber(value: string | undefined): number | undefined {
+    return value && /^\d+$/.test(value) ? Number(value) : undefined;
+  }
+
+  /**
+   * Reduces SSH and HTTPS clone URLs of a repository to the same form, e.g. github.com/org/repo
+   */
+  private static normalizeRepositoryUrl(url: string): string {
+    return url
+      .replace(/^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?/i, "")
+      .replace(/^([^/:]+):(?!\d+\/)/, "$1/")
+      .replace(/\.git$/, "")
+      .toLowerCase();
+  }
+}
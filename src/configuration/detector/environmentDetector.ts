@@ -1,25 +1,41 @@
+import CIContextResolver from "./ciContextResolver";
+import type { CIContext } from "./ciContext.type";
 import type { EnvironmentStage } from "../environment/constants/environment.constants";
-import StagesFilePathResolver from "../environment/manager/filePath/stagesFilePathResolver";
+import EnvironmentStageResolver from "../environment/stages/environmentStageResolver";
+import { DEFAULT_ENVIRONMENT_STAGE } from "../environment/stages/stages.config";
 
 export default class EnvironmentDetector {
   /**
    * Checks if running in CI environment
    */
   public static isCI(): boolean {
-    return !!(
-      process.env.CI ||
-      process.env.GITHUB_ACTIONS ||
-      process.env.GITLAB_CI ||
-      process.env.TRAVIS ||
-      process.env.CIRCLECI ||
-      process.env.JENKINS_URL ||
-      process.env.BITBUCKET_BUILD_NUMBER
-    );
+    return CIContextResolver.getProvider() !== undefined;
   }
 
+  /**
+   * Describes the CI build the process runs in: provider, build ID and URL, branch, commit,
+   * pull request number and whether the pull request comes from a fork
+   * @returns The CI context, or undefined when not running in CI
+   */
+  public static getCIContext(): CIContext | undefined {
+    return CIContextResolver.resolve();
+  }
+
+  /**
+   * Resolves the current stage from ENV, then NODE_ENV, by stage name or alias
+   * @returns The stage, or the default stage if neither names a configured stage
+   */
   public static getCurrentEnvironmentStage(): EnvironmentStage {
-    const env = process.env.ENV || process.env.NODE_ENV || "dev";
-    return StagesFilePathResolver.isValidStage(env) ? env : "dev";
+    const env = process.env.ENV || process.env.NODE_ENV;
+    return EnvironmentStageResolver.resolveStage(env) ?? DEFAULT_ENVIRONMENT_STAGE;
+  }
+
+  /**
+   * Checks if the current stage is the given stage or extends it, e.g. "perf" extending "qa"
+   * @param stage - The stage to check against
+   */
+  public static isStage(stage: EnvironmentStage): boolean {
+    return EnvironmentStageResolver.extendsStage(this.getCurrentEnvironmentStage(), stage);
   }
 
   public static isDevelopment(): boolean {
@@ -1,10 +1,50 @@
+import type { SnapshotRetentionPolicy } from "../types/environment.types";
+import type { FileWriteOptions } from "../../../utils/fileManager/internal/File-manager.types";
+import type { ENVIRONMENT_STAGE_CONFIG } from "../stages/stages.config";
+
 export const ENVIRONMENT_CONSTANTS = {
   ROOT: "envs",
   BASE_FILE: ".env",
   SECRET_FILE_PREFIX: "secret",
+  LOCAL_FILE_SUFFIX: "local",
+  PROCESS_ENV_SOURCE: "process.env",
   SECRET_KEY_VAR_PREFIX: "SECRET_KEY",
+  PREVIOUS_KEY_SUFFIX: "PREVIOUS",
+  ACTIVE_KEY_SUFFIX: "ACTIVE",
+  KEY_VERSION_PREFIX: "V",
+  KEY_METADATA_FILE_SUFFIX: "meta.json",
+  MANIFEST_FILE_SUFFIX: "manifest",
+  DEFAULT_INTEGRITY_MODE: "warn",
+  SHARED_FILE_PREFIX: "playwright-env-",
+  SHARED_FILE_VAR: "PLAYWRIGHT_SHARED_ENV_FILE",
+  SHARED_KEY_VAR: "PLAYWRIGHT_SHARED_ENV_KEY",
+  HISTORY_DIR: ".history",
+  SNAPSHOT_FILE_EXTENSION: ".json",
 } as const;
 
-export const ENVIRONMENT_STAGES = ["dev", "qa", "uat", "preprod", "prod"] as const;
+/**
+ * Name of a stage declared in the stage config
+ */
+export type EnvironmentStage = keyof typeof ENVIRONMENT_STAGE_CONFIG;
+
+/**
+ * Environment files are replaced atomically so an interrupted encryption or rotation cannot
+ * truncate them, and the previous version is kept as <file>.bak
+ */
+export const ENVIRONMENT_FILE_WRITE_OPTIONS: FileWriteOptions = { atomic: true, backup: true };
+
+/**
+ * Key metadata and integrity manifests are regenerated from the environment files, so they
+ * are replaced atomically without a backup
+ */
+export const GENERATED_FILE_WRITE_OPTIONS: FileWriteOptions = { atomic: true };
 
-export type EnvironmentStage = (typeof ENVIRONMENT_STAGES)[number];
+/**
+ * Number and age of the snapshots kept per environment file under envs/.history. Older
+ * snapshots are pruned after each new one; SNAPSHOT_MAX_COUNT and SNAPSHOT_MAX_AGE_DAYS
+ * override these values for a single run, and a count of 0 disables snapshots.
+ */
+export const SNAPSHOT_RETENTION: SnapshotRetentionPolicy = {
+  maxSnapshots: 20,
+  maxAgeDays: 30,
+};
@@ -0,0 +1,260 @@
+import { AsyncFileManager } from "../../../utils/fileManager/asyncFileManager";
+import { FileLockManager } from "../../../utils/fileManager/fileLockManager";
+import SecretFileManager from "./secretFileManager";
+import StagesFileManager from "./stagesFileManager";
+import ManifestFileManager from "./manifestFileManager";
+import StagesFilePathResolver from "./filePath/stagesFilePathResolver";
+import { ENVIRONMENT_FILE_WRITE_OPTIONS } from "../constants/environment.constants";
+import type { EnvironmentTransactionOperation } from "../types/environment.types";
+import { FileEncoding } from "../../../utils/fileManager/internal/file-encoding.enum";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+import logger from "../../../utils/logger/loggerManager";
+
+export default class EnvironmentTransaction {
+  private readonly operations: EnvironmentTransactionOperation[] = [];
+  private completed = false;
+
+  private constructor() {}
+
+  /**
+   * Starts a transaction. Changes are staged with storeKeyInFile, updateEnvironmentVariables
+   * and writeEnvironmentFileLines and only touch the files on commit.
+   * @returns The new transaction
+   */
+  public static begin(): EnvironmentTransaction {
+    return new EnvironmentTransaction();
+  }
+
+  /**
+   * Runs a callback that stages changes, then commits them, or discards them if the callback throws
+   * @param stageChanges - Stages the changes of the transaction
+   * @returns Promise resolving to the callback result once the changes are committed
+   */
+  public static async run<T>(
+    stageChanges: (transaction: EnvironmentTransaction) => Promise<T> | T,
+  ): Promise<T> {
+    const transaction = this.begin();
+    const result = await stageChanges(transaction);
+
+    await transaction.commit();
+    return result;
+  }
+
+  /**
+   * Runs an operation while holding the locks of several files, taken in the same fixed order
+   * as commit so callers and transactions cannot deadlock. A transaction committed inside the
+   * operation re-enters the held locks, so a read-modify-write can span both.
+   * @param filePaths - The files to lock
+   * @param operation - The operation to run once all locks are held
+   * @returns Promise resolving to the operation result
+   */
+  public static async withFileLocks<T>(
+    filePaths: string[],
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    const lockPaths = [...new Set(filePaths.map((filePath) => AsyncFileManager.resolve(filePath)))];
+    lockPaths.sort();
+
+    return this.withLocks(lockPaths, operation);
+  }
+
+  /**
+   * Stages a key-value pair to be stored with SecretFileManager.storeKeyInFile
+   * @param filePath - Path to the environment file
+   * @param keyName - The name of the environment key
+   * @param value - The value to store for the key
+   * @param options - Optional parameters to control behavior
+   * @param options.skipIfExists - If true, keeps an existing key untouched (default: false)
+   * @returns The transaction, for chaining
+   */
+  public storeKeyInFile(
+    filePath: string,
+    keyName: string,
+    value: string,
+    options: { skipIfExists?: boolean } = {},
+  ): this {
+    this.ensureOpen();
+    this.operations.push({ type: "storeKey", filePath, keyName, value, options });
+    return this;
+  }
+
+  /**
+   * Stages variables to be updated with StagesFileManager.updateEnvironmentVariables
+   * @param filePath - Path to the environment file
+   * @param variables - Object containing variable names and values to update
+   * @returns The transaction, for chaining
+   */
+  public updateEnvironmentVariables(filePath: string, variables: Record<string, string>): this {
+    this.ensureOpen();
+    this.operations.push({ type: "updateVariables", filePath, variables: { ...variables } });
+    return this;
+  }
+
+  /**
+   * Stages the full content of an environment file to be written with
+   * StagesFileManager.writeEnvironmentFileLines
+   * @param filePath - Path to the environment file
+   * @param lines - The lines to write
+   * @returns The transaction, for chaining
+   */
+  public writeEnvironmentFileLines(filePath: string, lines: string[]): this {
+    this.ensureOpen();
+    this.operations.push({ type: "writeLines", filePath, lines: [...lines] });
+    return this;
+  }
+
+  /**
+   * Applies the staged changes in order while holding the locks of every affected file.
+   * If any change fails, every affected file and integrity manifest is restored to its
+   * content from before the commit.
+   * @throws Error if a change fails; the files are rolled back before the error is rethrown
+   */
+  public async commit(): Promise<void> {
+    this.ensureOpen();
+    this.completed = true;
+
+    if (this.operations.length === 0) {
+      return;
+    }
+
+    // Take the locks in a fixed order so concurrent transactions cannot deadlock
+    const filePaths = [
+      ...new Set(this.operations.map((op) => AsyncFileManager.resolve(op.filePath))),
+    ];
+    filePaths.sort();
+
+    try {
+      await EnvironmentTransaction.withLocks(filePaths, async () => {
+        const backups = await this.createBackups(filePaths);
+
+        try {
+          await this.applyOperations(filePaths);
+        } catch (error) {
+          logger.warn(`Transaction failed — restoring ${filePaths.length} environment files`);
+          await this.restoreBackups(backups);
+          throw error;
+        }
+      });
+
+      logger.info(
+        `Committed ${this.operations.length} environment changes across ${filePaths.length} files`,
+      );
+    } catch (error) {
+      ErrorHandler.captureError(error, "commit", "Failed to commit environment transaction");
+      throw error;
+    }
+  }
+
+  /**
+   * Discards the staged changes without touching any file
+   */
+  public rollback(): void {
+    this.ensureOpen();
+    this.completed = true;
+    this.operations.length = 0;
+  }
+
+  // Private methods
+
+  /**
+   * Guards against staging into or committing a finished transaction
+   */
+  private ensureOpen(): void {
+    if (this.completed) {
+      ErrorHandler.logAndThrow(
+        "EnvironmentTransaction",
+        "Transaction has already been committed or rolled back",
+      );
+    }
+  }
+
+  /**
+   * Runs an operation while holding the locks of every file, acquired one after the other
+   * @param filePaths - The files to lock, in acquisition order
+   * @param operation - The operation to run once all locks are held
+   */
+  private static async withLocks<T>(filePaths: string[], operation: () => Promise<T>): Promise<T> {
+    const [firstPath, ...remainingPaths] = filePaths;
+
+    if (!firstPath) {
+      return operation();
+    }
+
+    return FileLockManager.withLock(firstPath, () => this.withLocks(remainingPaths, operation));
+  }
+
+  /**
+   * Reads the current content of each file and its integrity manifest
+   * @param filePaths - The files the transaction changes
+   * @returns Promise resolving to the content by path, or undefined for files that do not exist
+   */
+  private async createBackups(filePaths: string[]): Promise<Map<string, string | undefined>> {
+    const backups = new Map<string, string | undefined>();
+    const backupPaths = filePaths.flatMap((filePath) => [
+      filePath,
+      StagesFilePathResolver.getManifestFilePath(filePath),
+    ]);
+
+    for (const backupPath of backupPaths) {
+      backups.set(
+        backupPath,
+        (await AsyncFileManager.doesFileExist(backupPath))
+          ? await AsyncFileManager.readFile(backupPath, FileEncoding.UTF8)
+          : undefined,
+      );
+    }
+
+    return backups;
+  }
+
+  /**
+   * Applies the staged changes in order, then re-signs the affected stage files so their
+   * manifests match any secret key changed later in the transaction
+   * @param filePaths - The files the transaction changes
+   */
+  private async applyOperations(filePaths: string[]): Promise<void> {
+    for (const operation of this.operations) {
+      if (operation.type === "storeKey") {
+        await SecretFileManager.storeKeyInFile(
+          operation.filePath,
+          operation.keyName,
+          operation.value,
+          operation.options,
+        );
+      } else if (operation.type === "updateVariables") {
+        await StagesFileManager.updateEnvironmentVariables(operation.filePath, operation.variables);
+      } else {
+        await StagesFileManager.writeEnvironmentFileLines(operation.filePath, operation.lines);
+      }
+    }
+
+    for (const filePath of filePaths) {
+      if (StagesFilePathResolver.getStageForFilePath(filePath)) {
+        await ManifestFileManager.writeManifest(
+          filePath,
+          await StagesFileManager.readEnvironmentVariables(filePath),
+        );
+      }
+    }
+  }
+
+  /**
+   * Writes back the content each file had before the commit, deleting files it created
+   * @param backups - The content by path captured before the commit
+   */
+  private async restoreBackups(backups: Map<string, string | undefined>): Promise<void> {
+    for (const [backupPath, content] of backups) {
+      if (content !== undefined) {
+        await AsyncFileManager.writeFile(
+          backupPath,
+          content,
+          "transaction rollback",
+          FileEncoding.UTF8,
+          ENVIRONMENT_FILE_WRITE_OPTIONS,
+        );
+      } else if (await AsyncFileManager.doesFileExist(backupPath)) {
+        await AsyncFileManager.deleteFile(backupPath);
+      }
+    }
+  }
+}
@@ -1,18 +1,53 @@
-import dotenv from "dotenv";
 import EnvironmentDetector from "../../../detector/environmentDetector";
 import path from "path";
 import { AsyncFileManager } from "../../../../utils/fileManager/asyncFileManager";
 import SecretFileManager from "../secretFileManager";
 import StagesFileManager from "../stagesFileManager";
+import EnvironmentFileParser from "../../parser/environmentFileParser";
+import EnvironmentInterpolator from "../../parser/environmentInterpolator";
+import EnvironmentSchemaValidator from "../../schema/environmentSchemaValidator";
+import { ENVIRONMENT_SCHEMA } from "../../schema/environment.schema";
+import ManifestFileManager from "../manifestFileManager";
+import SharedEnvironmentFileManager from "../sharedEnvironmentFileManager";
 import SecretFilePathResolver from "./secretFilePathResolver";
 import StagesFilePathResolver from "./stagesFilePathResolver";
+import EncryptionManager from "../../../../cryptography/manager/encryptionManager";
+import KeyRotationManager from "../../../../cryptography/manager/keyRotationManager";
+import StageConfig from "../../stages/stageConfig";
+import { ENVIRONMENT_CONSTANTS } from "../../constants/environment.constants";
+import type { EnvironmentStage } from "../../constants/environment.constants";
+import type {
+  EnvironmentFileType,
+  EnvironmentLoadOptions,
+  EnvironmentSchema,
+  EnvironmentVariableProvenance,
+  EnvironmentVariableSourceType,
+  IntegrityCheckMode,
+  InterpolationReportEntry,
+  LoadedEnvironmentFile,
+} from "../../types/environment.types";
+import DataSanitizer from "../../../../utils/sanitization/dataSanitizer";
+import { MASK_PLACEHOLDER } from "../../../../utils/sanitization/internals/sanitization.config";
+import { FileEncoding } from "../../../../utils/fileManager/internal/file-encoding.enum";
 import ErrorHandler from "../../../../utils/errorHandling/errorHandler";
 import logger from "../../../../utils/logger/loggerManager";
 
+/**
+ * Values, files and sources collected while loading the configuration of one stage
+ */
+interface StageLoadState {
+  stage: EnvironmentStage;
+  values: Record<string, string>;
+  loadedFiles: LoadedEnvironmentFile[];
+  provenance: Map<string, EnvironmentVariableProvenance>;
+  interpolationReport: InterpolationReportEntry[];
+}
+
 export default class EnvironmentFileManager {
   private static instance: EnvironmentFileManager;
   private initialized = false;
-  private loadedFiles: string[] = [];
+  private config?: StageConfig;
+  private readonly otherStageConfigs = new Map<EnvironmentStage, StageConfig>();
 
   private constructor() {}
 
@@ -23,56 +58,603 @@ export default class EnvironmentFileManager {
     return EnvironmentFileManager.instance;
   }
 
-  public async initialize(): Promise<void> {
+  /**
+   * Loads the configuration of the current stage and expands ${VAR} references in its values.
+   * Later sources take precedence: .env.secret, then .env, then .env.<stage>, then the
+   * git-ignored .env.<stage>.local. Variables already set in the process environment are
+   * overridden unless preferProcessEnv is set. In a worker process that received the current
+   * stage in the environment shared by global setup, loads that instead of the files. In CI, .env.secret is not
+   * read: stage secret keys come from CI-provided variables such as QA_SECRET_KEY. The result
+   * is available from getStageConfig; process.env is only written when writeToProcessEnv is set.
+   * @param options - Optional parameters to control loading
+   * @param options.decryptValues - If true, decrypts encrypted values with the stage secret key (default: false)
+   * @param options.integrityMode - How to treat stage files that fail their integrity check
+   * @param options.preferProcessEnv - If true, the process environment wins over the files
+   * @param options.writeToProcessEnv - If true, writes the loaded variables into process.env
+   */
+  public async initialize(options: EnvironmentLoadOptions = {}): Promise<void> {
     if (this.initialized) {
       logger.debug("environment already initialized");
       return;
     }
 
-    if (EnvironmentDetector.isCI()) {
-      return;
+    try {
+      const stage = EnvironmentDetector.getCurrentEnvironmentStage();
+      const sharedConfig = await this.loadSharedStageConfig(stage);
+      if (sharedConfig) {
+        this.applyConfig(sharedConfig, options);
+        return;
+      }
+
+      const state = await this.loadStage(stage, options);
+      await this.checkKeyRotationPolicy(state);
+
+      this.applyConfig(this.createStageConfig(state), options);
+      this.logInitializationResult(state);
+    } catch (error) {
+      ErrorHandler.captureError(error, "initialize", "Failed to set up environment variables");
+      throw error;
     }
+  }
 
+  /**
+   * Loads the configuration of any stage into a separate StageConfig, leaving process.env and
+   * the configuration loaded by initialize untouched, so several stages can be held at once
+   * @param stage - The environment stage to load
+   * @param options - Optional parameters to control loading; writeToProcessEnv is ignored
+   * @returns Promise resolving to the configuration of the stage
+   */
+  public async loadStageConfig(
+    stage: EnvironmentStage,
+    options: EnvironmentLoadOptions = {},
+  ): Promise<StageConfig> {
     try {
-      await this.loadAllEnvironments();
-      this.initialized = true;
-      this.logInitializationResult();
+      return this.createStageConfig(await this.loadStage(stage, options));
     } catch (error) {
-      ErrorHandler.captureError(error, "initialize", "Failed to set up environment variables");
+      ErrorHandler.captureError(
+        error,
+        "loadStageConfig",
+        `Failed to load the configuration of stage "${stage}"`,
+      );
       throw error;
     }
   }
 
+  /**
+   * Loads the configuration of further stages next to the one loaded by initialize, so
+   * validateSchema and shareWithWorkers cover every stage the run selects. Each stage is
+   * checked against its key rotation policy like the current stage.
+   * @param stages - The stages to load, e.g. StageProjectFactory.getSelectedStages()
+   * @param options - Optional parameters to control loading; writeToProcessEnv is ignored
+   */
+  public async loadStages(
+    stages: EnvironmentStage[],
+    options: EnvironmentLoadOptions = {},
+  ): Promise<void> {
+    for (const stage of stages) {
+      if (stage === this.config?.stage || this.otherStageConfigs.has(stage)) {
+        continue;
+      }
+
+      try {
+        const state = await this.loadStage(stage, options);
+        await this.checkKeyRotationPolicy(state);
+
+        this.otherStageConfigs.set(stage, this.createStageConfig(state));
+        logger.info(
+          `Loaded stage "${stage}" with ${state.loadedFiles.length} config files: ${state.loadedFiles.map((file) => file.fileName).join(", ") || "none"}`,
+        );
+      } catch (error) {
+        ErrorHandler.captureError(
+          error,
+          "loadStages",
+          `Failed to load the configuration of stage "${stage}"`,
+        );
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Reads the configuration of a stage that global setup shared with the workers
+   * @param stage - The environment stage
+   * @returns Promise resolving to the shared configuration, or undefined if global setup did
+   * not share the stage
+   */
+  public async loadSharedStageConfig(stage: EnvironmentStage): Promise<StageConfig | undefined> {
+    const sharedEnvironment = await SharedEnvironmentFileManager.load(stage);
+
+    if (!sharedEnvironment) {
+      return undefined;
+    }
+
+    const state: StageLoadState = {
+      stage: sharedEnvironment.stage,
+      values: sharedEnvironment.variables,
+      loadedFiles: sharedEnvironment.loadedFiles,
+      provenance: new Map(),
+      interpolationReport: [],
+    };
+
+    for (const file of state.loadedFiles) {
+      for (const key of file.variables) {
+        this.recordProvenance(state, key, file.fileName, file.fileType);
+      }
+    }
+
+    logger.debug(
+      `Loaded ${Object.keys(sharedEnvironment.variables).length} shared environment variables for stage "${sharedEnvironment.stage}"`,
+    );
+    return this.createStageConfig(state);
+  }
+
+  /**
+   * Gets the configuration loaded by initialize
+   * @returns The configuration of the current stage
+   * @throws Error if initialize has not loaded a configuration
+   */
+  public getStageConfig(): StageConfig {
+    if (!this.config) {
+      ErrorHandler.logAndThrow(
+        "getStageConfig",
+        "Environment is not initialized — call initialize before reading the stage config",
+      );
+    }
+    return this.config;
+  }
+
+  /**
+   * Shares the variables of every loaded stage with worker processes through an encrypted temp
+   * file, so workers skip loading and decrypting the environment files. Secret keys are not
+   * shared. Call after initialize and loadStages in global setup; global teardown removes the
+   * file.
+   */
+  public async shareWithWorkers(): Promise<void> {
+    if (!this.initialized || !this.config) {
+      return;
+    }
+
+    await SharedEnvironmentFileManager.publish(
+      this.getLoadedStageConfigs().map((config) => ({
+        stage: config.stage,
+        variables: config.toObject(),
+        loadedFiles: config.getLoadedFiles().filter((file) => file.fileType !== "secret"),
+      })),
+    );
+  }
+
+  /**
+   * Validates the environment of every loaded stage against the schema and fails with a single
+   * report per stage that lists every missing, malformed or unencrypted variable. Call after
+   * initialize, and after loadStages to cover the other stages.
+   * @param schema - The schema to validate against (default: ENVIRONMENT_SCHEMA)
+   * @throws Error listing every violation of the first stage that fails, with sensitive values
+   * masked
+   */
+  public validateSchema(schema: EnvironmentSchema = ENVIRONMENT_SCHEMA): void {
+    this.getStageConfig();
+
+    for (const config of this.getLoadedStageConfigs()) {
+      const encryptedVariables = new Set(config.keys().filter((key) => config.isSecret(key)));
+
+      EnvironmentSchemaValidator.assertValid(
+        config.stage,
+        config.toObject(),
+        encryptedVariables,
+        schema,
+      );
+      logger.debug(
+        `Environment of stage "${config.stage}" matches the schema (${Object.keys(schema).length} variables)`,
+      );
+    }
+  }
+
   public isInitialized(): boolean {
     return this.initialized;
   }
 
-  public getLoadedFiles(): readonly string[] {
-    return [...this.loadedFiles];
+  /**
+   * Reports which source supplied the current value of a variable
+   * @param key - The variable name
+   * @returns The supplying source and the sources it overrode, or undefined if the variable was
+   * neither loaded from a file nor set in the process environment
+   */
+  public getProvenance(key: string): EnvironmentVariableProvenance | undefined {
+    const provenance = this.config?.getProvenance(key);
+
+    if (provenance) {
+      return provenance;
+    }
+
+    return process.env[key] !== undefined
+      ? {
+          key,
+          source: ENVIRONMENT_CONSTANTS.PROCESS_ENV_SOURCE,
+          sourceType: "process",
+          overridden: [],
+        }
+      : undefined;
+  }
+
+  public getLoadedFiles(): readonly LoadedEnvironmentFile[] {
+    return this.config?.getLoadedFiles() ?? [];
+  }
+
+  /**
+   * Stores the loaded configuration and writes it into process.env when requested
+   * @param config - The loaded configuration
+   * @param options - The load options
+   */
+  private applyConfig(config: StageConfig, options: EnvironmentLoadOptions): void {
+    this.config = config;
+    this.initialized = true;
+
+    if (options.writeToProcessEnv) {
+      Object.assign(process.env, config.toObject());
+      logger.debug(`Wrote ${config.keys().length} environment variables into process.env`);
+    }
+  }
+
+  /**
+   * Collects the configuration loaded by initialize and those loaded by loadStages
+   * @returns The configurations, the current stage first
+   */
+  private getLoadedStageConfigs(): StageConfig[] {
+    return [...(this.config ? [this.config] : []), ...this.otherStageConfigs.values()];
+  }
+
+  /**
+   * Loads, decrypts and expands the configuration of a stage without touching process.env
+   * @param stage - The environment stage
+   * @param options - The load options
+   * @returns Promise resolving to the loaded state
+   */
+  private async loadStage(
+    stage: EnvironmentStage,
+    options: EnvironmentLoadOptions,
+  ): Promise<StageLoadState> {
+    const state: StageLoadState = {
+      stage,
+      values: {},
+      loadedFiles: [],
+      provenance: new Map(),
+      interpolationReport: [],
+    };
+
+    await this.loadAllEnvironments(state, options);
+
+    if (options.decryptValues) {
+      await this.decryptLoadedValues(state);
+    }
+
+    this.interpolateLoadedValues(state);
+    this.logProvenanceTable(state);
+
+    return state;
   }
 
   /**
-   * Loads all environment files in sequence
+   * Builds the configuration of a stage from its loaded state. Variables whose value comes from
+   * the secret file and stage key ring variables are left out; a secret file variable overridden
+   * by a later file is kept with the overriding value.
+   * @param state - The loaded state
+   * @returns The immutable configuration
    */
-  private async loadAllEnvironments(): Promise<void> {
-    await this.loadEnvironmentFile(SecretFilePathResolver.getSecretFilePath(), "base", (fp) =>
-      SecretFileManager.handleMissingEnvFile(fp),
+  private createStageConfig(state: StageLoadState): StageConfig {
+    const secretKeys = this.getSecretKeys(state);
+    const values = Object.fromEntries(
+      Object.entries(state.values).filter(([key]) => !secretKeys.has(key)),
+    );
+
+    return new StageConfig(
+      state.stage,
+      values,
+      state.loadedFiles,
+      [...state.provenance.values()].filter(({ key }) => !secretKeys.has(key)),
     );
+  }
+
+  /**
+   * Loads all environment files in order of precedence, then applies the process environment
+   * @param state - The state of the stage being loaded
+   * @param options - The load options
+   */
+  private async loadAllEnvironments(
+    state: StageLoadState,
+    options: EnvironmentLoadOptions,
+  ): Promise<void> {
+    const ciContext = EnvironmentDetector.getCIContext();
+    if (ciContext) {
+      logger.info(
+        `CI detected (${ciContext.provider}, build ${ciContext.buildId ?? "unknown"}) — reading the secret key of stage "${state.stage}" from CI variables instead of ${SecretFilePathResolver.getSecretFilePath()}`,
+      );
+    } else {
+      await this.loadEnvironmentFile(
+        state,
+        SecretFilePathResolver.getSecretFilePath(),
+        "secret",
+        (fp) => SecretFileManager.handleMissingEnvFile(fp),
+      );
+    }
+    await this.loadEnvironmentFile(state, StagesFilePathResolver.getBaseFilePath(), "base");
 
-    const env = EnvironmentDetector.getCurrentEnvironmentStage();
+    const env = state.stage;
     const stageFilePath = this.getStageFilePath(env);
-    await this.loadEnvironmentFile(stageFilePath, "stage", (fp) =>
+    await this.verifyStageFileIntegrity(stageFilePath, env, this.resolveIntegrityMode(options));
+    await this.loadEnvironmentFile(state, stageFilePath, "stage", (fp) =>
       StagesFileManager.logEnvironmentFileNotFound(fp, env),
     );
+    await this.loadEnvironmentFile(state, StagesFilePathResolver.getLocalFilePath(env), "local");
+
+    this.applyProcessEnvironment(state, this.resolvePreferProcessEnv(options));
+  }
+
+  /**
+   * Settles variables set both in the process environment and in a file. The process value
+   * replaces the file value when it takes precedence, otherwise it is recorded as overridden.
+   * @param state - The state of the stage being loaded
+   * @param preferProcessEnv - Whether the process environment wins over the files
+   */
+  private applyProcessEnvironment(state: StageLoadState, preferProcessEnv: boolean): void {
+    for (const [key, provenance] of state.provenance) {
+      const processValue = process.env[key];
+      if (processValue === undefined) {
+        continue;
+      }
+
+      if (preferProcessEnv) {
+        state.values[key] = processValue;
+        this.recordProvenance(state, key, ENVIRONMENT_CONSTANTS.PROCESS_ENV_SOURCE, "process");
+      } else {
+        provenance.overridden.unshift(ENVIRONMENT_CONSTANTS.PROCESS_ENV_SOURCE);
+      }
+    }
+  }
+
+  /**
+   * Records the source that supplied a variable, moving any earlier source to the overridden list
+   * @param state - The state of the stage being loaded
+   * @param key - The variable name
+   * @param source - The file name, or "process.env"
+   * @param sourceType - The kind of source
+   */
+  private recordProvenance(
+    state: StageLoadState,
+    key: string,
+    source: string,
+    sourceType: EnvironmentVariableSourceType,
+  ): void {
+    const previous = state.provenance.get(key);
+
+    state.provenance.set(key, {
+      key,
+      source,
+      sourceType,
+      overridden: previous ? [...previous.overridden, previous.source] : [],
+    });
+  }
+
+  /**
+   * Checks a stage file against its integrity manifest before it is loaded
+   * @param filePath - Path to the stage environment file
+   * @param env - The environment stage (for logging)
+   * @param mode - "strict" refuses a file that fails the check, "warn" logs it, "off" skips it
+   */
+  private async verifyStageFileIntegrity(
+    filePath: string,
+    env: EnvironmentStage,
+    mode: IntegrityCheckMode,
+  ): Promise<void> {
+    if (mode === "off" || !(await StagesFileManager.doesEnvironmentFileExist(filePath))) {
+      return;
+    }
+
+    const variables = await StagesFileManager.readEnvironmentVariables(filePath);
+    const status = await ManifestFileManager.verifyManifest(filePath, variables);
+
+    if (status === "valid") {
+      logger.debug(`Integrity manifest verified for stage "${env}"`);
+      return;
+    }
+
+    const reasons: Record<Exclude<typeof status, "valid">, string> = {
+      invalid: "was modified outside the encryption tooling",
+      missing: "has no integrity manifest",
+      unverifiable: "was signed with a secret key that is no longer available",
+    };
+    const message = `Environment file for stage "${env}" ${reasons[status]}: ${path.basename(filePath)}`;
+
+    if (mode === "strict") {
+      ErrorHandler.logAndThrow("verifyStageFileIntegrity", message);
+    }
+
+    // Files that were never signed are expected outside strict mode
+    if (status === "missing") {
+      logger.info(message);
+    } else {
+      logger.warn(message);
+    }
+  }
+
+  /**
+   * Resolves the integrity check mode from the load options, ENV_INTEGRITY_MODE, or the default
+   */
+  private resolveIntegrityMode(options: EnvironmentLoadOptions): IntegrityCheckMode {
+    const modes: IntegrityCheckMode[] = ["strict", "warn", "off"];
+    const configuredMode = options.integrityMode ?? process.env.ENV_INTEGRITY_MODE;
+
+    return (
+      modes.find((mode) => mode === configuredMode) ?? ENVIRONMENT_CONSTANTS.DEFAULT_INTEGRITY_MODE
+    );
+  }
+
+  /**
+   * Resolves whether the process environment wins from the load options or ENV_PREFER_PROCESS_ENV
+   */
+  private resolvePreferProcessEnv(options: EnvironmentLoadOptions): boolean {
+    return options.preferProcessEnv ?? process.env.ENV_PREFER_PROCESS_ENV === "true";
+  }
+
+  /**
+   * Decrypts every encrypted loaded value with the stage's secret key and records the
+   * decrypted variables against the file that supplied them
+   * @param state - The state of the stage being loaded
+   */
+  private async decryptLoadedValues(state: StageLoadState): Promise<void> {
+    const env = state.stage;
+
+    const stageFilePath = this.getStageFilePath(env);
+    const fileHeader = (await StagesFileManager.doesEnvironmentFileExist(stageFilePath))
+      ? await StagesFileManager.readFileHeader(stageFilePath)
+      : undefined;
+
+    const decryptedValues = await EncryptionManager.decryptVariables(env, state.values, fileHeader);
+
+    for (const [key, value] of Object.entries(decryptedValues)) {
+      state.values[key] = value;
+      this.findSupplyingFile(state, key)?.decryptedVariables.push(key);
+    }
+
+    if (Object.keys(decryptedValues).length > 0) {
+      logger.info(
+        `Decrypted ${Object.keys(decryptedValues).length} environment variables for stage "${env}"`,
+      );
+    }
+  }
+
+  /**
+   * Expands ${VAR} and ${VAR:-default} references in the loaded values, after decryption so
+   * references to encrypted values resolve to the plain text. Decrypted values are taken
+   * literally, since a secret may contain "${". Secret file variables and stage keys, loaded or
+   * from the process environment, are no reference sources, so a key never leaks into a plain
+   * value. Warns about references that resolve to nothing and have no default, and logs a debug
+   * report with the masked values hidden.
+   * @param state - The state of the stage being loaded
+   */
+  private interpolateLoadedValues(state: StageLoadState): void {
+    const maskedKeys = this.getDirectlyMaskedKeys(state);
+    const secretKeys = this.getSecretKeys(state);
+    const isReferenceSource = ([key]: [string, string | undefined]) =>
+      !secretKeys.has(key) && !SecretFilePathResolver.isKeyRingVariable(key);
+
+    const { values, report } = EnvironmentInterpolator.interpolate(
+      Object.fromEntries(Object.entries(state.values).filter(isReferenceSource)),
+      Object.fromEntries(Object.entries(process.env).filter(isReferenceSource)),
+      maskedKeys,
+    );
+
+    Object.assign(state.values, values);
+    state.interpolationReport = report;
+
+    for (const { key, unresolved } of report) {
+      if (unresolved.length > 0) {
+        logger.warn(
+          `Unset variables referenced without a default in "${key}" expanded to an empty string: ${unresolved.join(", ")}`,
+        );
+      }
+    }
+
+    if (report.length > 0) {
+      logger.debug(
+        `Expanded references in ${report.length} environment variables:\n${EnvironmentInterpolator.formatReport(report, maskedKeys)}`,
+      );
+    }
+  }
+
+  /**
+   * Logs a debug table of the source that supplied each loaded variable and the sources it
+   * overrode. Secret keys, decrypted values and values built from them are masked.
+   * @param state - The state of the stage being loaded
+   */
+  private logProvenanceTable(state: StageLoadState): void {
+    if (state.provenance.size === 0) {
+      return;
+    }
+
+    const maskedKeys = EnvironmentInterpolator.getMaskedKeys(
+      state.interpolationReport,
+      this.getDirectlyMaskedKeys(state),
+    );
+    const rows = [...state.provenance.values()].map(({ key, source, overridden }) => {
+      const value = state.values[key] ?? "";
+      return [
+        key,
+        source,
+        overridden.join(", ") || "-",
+        maskedKeys.has(key) ? MASK_PLACEHOLDER : DataSanitizer.sanitize({ [key]: value })[key],
+      ];
+    });
+
+    const table = [["VARIABLE", "SOURCE", "OVERRIDES", "VALUE"], ...rows];
+    const widths = table[0].map((_, column) => Math.max(...table.map((row) => row[column].length)));
+    const lines = table.map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join("  ")
+        .trimEnd(),
+    );
+
+    logger.debug(
+      `Environment variable sources for stage "${state.stage}" (${rows.length}):\n${lines.join("\n")}`,
+    );
+  }
+
+  /**
+   * Finds the variables whose value comes from the secret file and the stage key ring variables
+   * @param state - The state of the loaded stage
+   * @returns The names of the variables holding secret keys
+   */
+  private getSecretKeys(state: StageLoadState): Set<string> {
+    return new Set(
+      [...state.provenance.values()]
+        .filter(
+          ({ key, sourceType }) =>
+            sourceType === "secret" || SecretFilePathResolver.isKeyRingVariable(key),
+        )
+        .map(({ key }) => key),
+    );
+  }
+
+  /**
+   * Collects the variables whose values are never logged: secret keys and decrypted values
+   * @param state - The state of the stage being loaded
+   */
+  private getDirectlyMaskedKeys(state: StageLoadState): Set<string> {
+    return new Set(
+      state.loadedFiles.flatMap((file) =>
+        file.fileType === "secret" ? file.variables : file.decryptedVariables,
+      ),
+    );
+  }
+
+  /**
+   * Checks the stage's secret key against its rotation policy when the secret file was
+   * loaded. Warns about expired keys, or fails when the stage policy is strict.
+   * @param state - The state of the loaded stage
+   */
+  private async checkKeyRotationPolicy(state: StageLoadState): Promise<void> {
+    if (!state.loadedFiles.some((file) => file.fileType === "secret")) {
+      return;
+    }
+
+    await KeyRotationManager.enforceRotationPolicy(state.stage);
+  }
+
+  /**
+   * Finds the last loaded file defining a variable, which is the one whose value won
+   */
+  private findSupplyingFile(state: StageLoadState, key: string): LoadedEnvironmentFile | undefined {
+    return [...state.loadedFiles].reverse().find((file) => file.variables.includes(key));
   }
 
   /**
    * Logs the initialization result based on loaded files
+   * @param state - The state of the loaded stage
    */
-  private logInitializationResult(): void {
-    if (this.loadedFiles.length > 0) {
+  private logInitializationResult(state: StageLoadState): void {
+    if (state.loadedFiles.length > 0) {
       logger.info(
-        `Environment successfully initialized with ${this.loadedFiles.length} config files: ${this.loadedFiles.join(", ")}`,
+        `Environment successfully initialized with ${state.loadedFiles.length} config files: ${state.loadedFiles.map((file) => file.fileName).join(", ")}`,
       );
     } else {
       logger.warn("Environment initialized but no config files were loaded");
@@ -80,14 +662,16 @@ export default class EnvironmentFileManager {
   }
 
   /**
-   * Unified method to load any environment file (base or stage)
+   * Unified method to load any environment file
+   * @param state - The state of the stage being loaded
    * @param filePath - Path to the environment file
    * @param fileType - Type of file being loaded (for logging)
    * @param onMissing - Optional callback to handle missing files
    */
   private async loadEnvironmentFile(
+    state: StageLoadState,
     filePath: string,
-    fileType: "base" | "stage",
+    fileType: EnvironmentFileType,
     onMissing?: (filePath: string) => void,
   ): Promise<boolean> {
     try {
@@ -100,18 +684,23 @@ export default class EnvironmentFileManager {
         return false;
       }
 
-      // Load dotenv and validate
-      const result = dotenv.config({ path: filePath, override: true });
+      // Parse with the same grammar the file managers write with, overriding earlier values
+      const content = await AsyncFileManager.readFile(filePath, FileEncoding.UTF8);
+      const variables = EnvironmentFileParser.getVariables(EnvironmentFileParser.parse(content));
+      const fileName = path.basename(filePath);
 
-      if (result.error) {
-        throw new Error(
-          `Error loading environment variables from ${filePath}: ${result.error.message}`,
-        );
+      for (const [key, value] of Object.entries(variables)) {
+        state.values[key] = value;
+        this.recordProvenance(state, key, fileName, fileType);
       }
 
       // Register the loaded file
-      const fileName = path.basename(filePath);
-      this.loadedFiles.push(fileName);
+      state.loadedFiles.push({
+        fileName,
+        fileType,
+        variables: Object.keys(variables),
+        decryptedVariables: [],
+      });
       logger.info(`Successfully loaded ${fileType} environment file: ${fileName}`);
 
       return true;
@@ -122,8 +711,8 @@ export default class EnvironmentFileManager {
         `Failed to load ${fileType} environment file at ${filePath}`,
       );
 
-      // For base files, re-throw; for stage files, log and continue
-      if (fileType === "base") {
+      // For the secret file, re-throw; for the other files, log and continue
+      if (fileType === "secret") {
         throw error;
       }
       return false;
@@ -1,6 +1,7 @@
 import { SyncFileManager } from "../../../../utils/fileManager/syncFileManager";
-import { ENVIRONMENT_CONSTANTS, ENVIRONMENT_STAGES } from "../../constants/environment.constants";
+import { ENVIRONMENT_CONSTANTS } from "../../constants/environment.constants";
 import type { EnvironmentStage } from "../../constants/environment.constants";
+import EnvironmentStageResolver from "../../stages/environmentStageResolver";
 
 export default class SecretFilePathResolver {
   private static rootDir: string;
@@ -12,15 +13,54 @@ export default class SecretFilePathResolver {
     );
   }
 
+  public static getKeyMetadataFilePath(): string {
+    return `${this.getSecretFilePath()}.${ENVIRONMENT_CONSTANTS.KEY_METADATA_FILE_SUFFIX}`;
+  }
+
   public static getSecretVariables(): Record<EnvironmentStage, string> {
     return Object.fromEntries(
-      ENVIRONMENT_STAGES.map((stage) => [
+      EnvironmentStageResolver.getStages().map((stage) => [
+        stage,
+        // Hyphens in stage names such as "feature-login" are not valid in variable names
+        `${stage.toUpperCase().replace(/-/g, "_")}_${ENVIRONMENT_CONSTANTS.SECRET_KEY_VAR_PREFIX}`,
+      ]),
+    ) as Record<EnvironmentStage, string>;
+  }
+
+  public static getPreviousSecretVariables(): Record<EnvironmentStage, string> {
+    return Object.fromEntries(
+      Object.entries(this.getSecretVariables()).map(([stage, keyName]) => [
         stage,
-        `${stage.toUpperCase()}_${ENVIRONMENT_CONSTANTS.SECRET_KEY_VAR_PREFIX}`,
+        `${keyName}_${ENVIRONMENT_CONSTANTS.PREVIOUS_KEY_SUFFIX}`,
       ]),
     ) as Record<EnvironmentStage, string>;
   }
 
+  public static getActiveKeyVariables(): Record<EnvironmentStage, string> {
+    return Object.fromEntries(
+      Object.entries(this.getSecretVariables()).map(([stage, keyName]) => [
+        stage,
+        `${keyName}_${ENVIRONMENT_CONSTANTS.ACTIVE_KEY_SUFFIX}`,
+      ]),
+    ) as Record<EnvironmentStage, string>;
+  }
+
+  public static getKeyRingVariable(stage: EnvironmentStage, keyId: string): string {
+    return `${this.getSecretVariables()[stage]}_${keyId}`;
+  }
+
+  /**
+   * Checks whether a variable holds a stage secret key: the key, its previous or active pointer,
+   * or a versioned key of the key ring
+   * @param name - The variable name
+   * @returns Whether the variable belongs to the key ring of a stage
+   */
+  public static isKeyRingVariable(name: string): boolean {
+    return Object.values(this.getSecretVariables()).some(
+      (keyName) => name === keyName || name.startsWith(`${keyName}_`),
+    );
+  }
+
   private static get rootPath(): string {
     if (!this.rootDir) {
       this.rootDir = SyncFileManager.resolve(ENVIRONMENT_CONSTANTS.ROOT);
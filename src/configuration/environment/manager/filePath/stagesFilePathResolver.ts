@@ -1,21 +1,49 @@
 import { SyncFileManager } from "../../../../utils/fileManager/syncFileManager";
-import { ENVIRONMENT_CONSTANTS, ENVIRONMENT_STAGES } from "../../constants/environment.constants";
+import { ENVIRONMENT_CONSTANTS } from "../../constants/environment.constants";
 import type { EnvironmentStage } from "../../constants/environment.constants";
+import EnvironmentStageResolver from "../../stages/environmentStageResolver";
 
 export default class StagesFilePathResolver {
   private static rootDir: string;
 
   public static getEnvironmentStages(): Record<EnvironmentStage, string> {
     return Object.fromEntries(
-      ENVIRONMENT_STAGES.map((stage) => [
+      EnvironmentStageResolver.getStages().map((stage) => [
         stage,
         SyncFileManager.join(this.rootPath, `${ENVIRONMENT_CONSTANTS.BASE_FILE}.${stage}`),
       ]),
     ) as Record<EnvironmentStage, string>;
   }
 
+  public static getBaseFilePath(): string {
+    return SyncFileManager.join(this.rootPath, ENVIRONMENT_CONSTANTS.BASE_FILE);
+  }
+
+  public static getLocalFilePath(stage: EnvironmentStage): string {
+    return `${this.getEnvironmentStages()[stage]}.${ENVIRONMENT_CONSTANTS.LOCAL_FILE_SUFFIX}`;
+  }
+
+  public static getStageForFilePath(filePath: string): EnvironmentStage | undefined {
+    const normalizedPath = SyncFileManager.resolve(filePath);
+    const stages = this.getEnvironmentStages();
+
+    return EnvironmentStageResolver.getStages().find((stage) => stages[stage] === normalizedPath);
+  }
+
+  public static getManifestFilePath(filePath: string): string {
+    return `${SyncFileManager.resolve(filePath)}.${ENVIRONMENT_CONSTANTS.MANIFEST_FILE_SUFFIX}`;
+  }
+
+  public static getSnapshotDirectory(filePath: string): string {
+    return SyncFileManager.join(
+      this.rootPath,
+      ENVIRONMENT_CONSTANTS.HISTORY_DIR,
+      SyncFileManager.getBaseNameWithExtension(filePath),
+    );
+  }
+
   public static isValidStage(value: unknown): value is EnvironmentStage {
-    return typeof value === "string" && ENVIRONMENT_STAGES.includes(value as EnvironmentStage);
+    return EnvironmentStageResolver.isStage(value);
   }
 
   private static get rootPath(): string {
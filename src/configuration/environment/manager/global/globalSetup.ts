@@ -1,11 +1,19 @@
 import EnvironmentFileManager from "../filePath/EnvironmentFileManager";
-import EnvironmentDetector from "../../../detector/environmentDetector";
+import StageProjectFactory from "../../stages/stageProjectFactory";
 //import AuthenticationFileManager from "../../../utils/auth/storage/authenticationFileManager";
 import ErrorHandler from "../../../../utils/errorHandling/errorHandler";
 
 async function setupEnvironment(): Promise<void> {
   try {
-    await EnvironmentFileManager.getInstance().initialize();
+    const environmentFileManager = EnvironmentFileManager.getInstance();
+
+    // Decrypted values stay out of process.env; tests read them through stageConfig
+    await environmentFileManager.initialize({ decryptValues: true });
+    await environmentFileManager.loadStages(StageProjectFactory.getSelectedStages(), {
+      decryptValues: true,
+    });
+    environmentFileManager.validateSchema();
+    await environmentFileManager.shareWithWorkers();
   } catch (error) {
     ErrorHandler.captureError(error, "setupEnvironment", "Environment setup failed");
     throw error;
@@ -23,14 +31,8 @@ async function setupEnvironment(): Promise<void> {
 
 async function globalSetup(): Promise<void> {
   try {
-    const isCI = EnvironmentDetector.isCI();
-
-    if (isCI) {
-      //await resetAuthState();
-    } else {
-      await setupEnvironment();
-      //await resetAuthState();
-    }
+    await setupEnvironment();
+    //await resetAuthState();
   } catch (error) {
     ErrorHandler.captureError(error, "runGlobalSetup", "Global setup failed");
     throw error;
@@ -0,0 +1,13 @@
+import SharedEnvironmentFileManager from "../sharedEnvironmentFileManager";
+import ErrorHandler from "../../../../utils/errorHandling/errorHandler";
+
+async function globalTeardown(): Promise<void> {
+  try {
+    await SharedEnvironmentFileManager.remove();
+  } catch (error) {
+    ErrorHandler.captureError(error, "runGlobalTeardown", "Global teardown failed");
+    throw error;
+  }
+}
+
+export default globalTeardown;
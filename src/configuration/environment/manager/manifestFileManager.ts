@@ -0,0 +1,144 @@
+import { AsyncFileManager } from "../../../utils/fileManager/asyncFileManager";
+import SecretFileManager from "./secretFileManager";
+import SecretFilePathResolver from "./filePath/secretFilePathResolver";
+import StagesFilePathResolver from "./filePath/stagesFilePathResolver";
+import EnvironmentDetector from "../../detector/environmentDetector";
+import IntegrityService from "../../../cryptography/service/integrityService";
+import { CRYPTO_CONSTANTS } from "../../../cryptography/types/crypto.config";
+import { GENERATED_FILE_WRITE_OPTIONS } from "../constants/environment.constants";
+import type { EnvironmentStage } from "../constants/environment.constants";
+import type { IntegrityManifest, ManifestVerificationStatus } from "../types/environment.types";
+import { FileEncoding } from "../../../utils/fileManager/internal/file-encoding.enum";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+import logger from "../../../utils/logger/loggerManager";
+
+export default class ManifestFileManager {
+  /**
+   * Signs the variables of a stage environment file and writes the manifest next to it
+   * @param filePath - Path to the stage environment file
+   * @param variables - The variables currently stored in the file
+   * @returns Promise resolving to boolean indicating if a manifest was written; files that
+   * are not stage files, or stages without a secret key, are not signed
+   */
+  public static async writeManifest(
+    filePath: string,
+    variables: Record<string, string>,
+  ): Promise<boolean> {
+    const stage = StagesFilePathResolver.getStageForFilePath(filePath);
+    if (!stage) {
+      return false;
+    }
+
+    const manifestFilePath = StagesFilePathResolver.getManifestFilePath(filePath);
+
+    try {
+      const keyName = await this.getSigningKeyName(stage);
+      const secretKey = keyName ? await this.getSecretKeyValue(keyName) : undefined;
+
+      if (!keyName || !secretKey) {
+        logger.debug(`No secret key for stage "${stage}" — skipping integrity manifest`);
+        return false;
+      }
+
+      const manifest: IntegrityManifest = {
+        version: CRYPTO_CONSTANTS.INTEGRITY.MANIFEST_VERSION,
+        algorithm: `HMAC-${CRYPTO_CONSTANTS.INTEGRITY.HMAC_ALGORITHM.toUpperCase()}`,
+        keyName,
+        signedAt: new Date().toISOString(),
+        signature: IntegrityService.sign(variables, secretKey),
+      };
+
+      await AsyncFileManager.writeFile(
+        manifestFilePath,
+        JSON.stringify(manifest, null, 2),
+        "integrity manifest",
+        FileEncoding.UTF8,
+        GENERATED_FILE_WRITE_OPTIONS,
+      );
+      logger.debug(`Updated integrity manifest for stage "${stage}"`);
+
+      return true;
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "writeManifest",
+        `Failed to write integrity manifest at "${manifestFilePath}"`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Checks the variables of a stage environment file against its manifest
+   * @param filePath - Path to the stage environment file
+   * @param variables - The variables currently stored in the file
+   * @returns Promise resolving to "valid", "invalid" (the file was edited outside the library),
+   * "missing" (no manifest) or "unverifiable" (the signing key is no longer available)
+   */
+  public static async verifyManifest(
+    filePath: string,
+    variables: Record<string, string>,
+  ): Promise<ManifestVerificationStatus> {
+    const manifestFilePath = StagesFilePathResolver.getManifestFilePath(filePath);
+
+    try {
+      if (!(await AsyncFileManager.doesFileExist(manifestFilePath))) {
+        return "missing";
+      }
+
+      const content = await AsyncFileManager.readFile(manifestFilePath, FileEncoding.UTF8);
+      const manifest = JSON.parse(content) as IntegrityManifest;
+      const secretKey = await this.getSecretKeyValue(manifest.keyName);
+
+      if (!secretKey) {
+        return "unverifiable";
+      }
+
+      return IntegrityService.verify(variables, secretKey, manifest.signature)
+        ? "valid"
+        : "invalid";
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "verifyManifest",
+        `Failed to verify integrity manifest at "${manifestFilePath}"`,
+      );
+      return "invalid";
+    }
+  }
+
+  // Private methods
+
+  /**
+   * Resolves the name of the key used to sign a stage file
+   * @param stage - The environment stage
+   * @returns Promise resolving to the key name, or undefined if there is no secret file
+   */
+  private static async getSigningKeyName(stage: EnvironmentStage): Promise<string | undefined> {
+    if (!(await AsyncFileManager.doesFileExist(SecretFilePathResolver.getSecretFilePath()))) {
+      return undefined;
+    }
+    return SecretFileManager.getCurrentStageKeyName(stage);
+  }
+
+  /**
+   * Reads a secret key from the secret file without creating the file, or from the CI-provided
+   * variables in CI
+   * @param keyName - The name of the secret key
+   * @returns Promise resolving to the key value, or undefined if it is not stored
+   */
+  private static async getSecretKeyValue(keyName: string): Promise<string | undefined> {
+    if (EnvironmentDetector.isCI()) {
+      return process.env[keyName]?.trim() || undefined;
+    }
+
+    const secretFilePath = SecretFilePathResolver.getSecretFilePath();
+
+    if (!(await AsyncFileManager.doesFileExist(secretFilePath))) {
+      return undefined;
+    }
+
+    const value = await SecretFileManager.getKeyValue(secretFilePath, keyName);
+    return value?.trim() || undefined;
+  }
+}
@@ -1,13 +1,21 @@
 import { AsyncFileManager } from "../../../utils/fileManager/asyncFileManager";
+import { FileLockManager } from "../../../utils/fileManager/fileLockManager";
+import SnapshotFileManager from "./snapshotFileManager";
 import SecretFilePathResolver from "./filePath/secretFilePathResolver";
+import EnvironmentFileParser from "../parser/environmentFileParser";
+import {
+  ENVIRONMENT_CONSTANTS,
+  ENVIRONMENT_FILE_WRITE_OPTIONS,
+  GENERATED_FILE_WRITE_OPTIONS,
+} from "../constants/environment.constants";
+import type { EnvironmentStage } from "../constants/environment.constants";
+import type { StageKeyRing } from "../../../cryptography/types/crypto.types";
+import type { KeyMetadata } from "../types/environment.types";
 import { FileEncoding } from "../../../utils/fileManager/internal/file-encoding.enum";
 import ErrorHandler from "../../../utils/errorHandling/errorHandler";
 import logger from "../../../utils/logger/loggerManager";
 
 export default class SecretFileManager {
-  // File lock registry to track ongoing operations
-  private static readonly fileLocks = new Map<string, Promise<void>>();
-
   /**
    * Stores or updates an environment key-value pair in the base environment file
    * @param keyName - The name of the environment key
@@ -62,6 +70,231 @@ export default class SecretFileManager {
     });
   }
 
+  /**
+   * Stores or updates several environment key-value pairs in a single write
+   * @param filePath - Path to the environment file
+   * @param keys - Object containing key names and values to store
+   */
+  public static async storeKeysInFile(
+    filePath: string,
+    keys: Record<string, string>,
+  ): Promise<void> {
+    const keyNames = Object.keys(keys).join(", ");
+
+    return this.executeWithFileLock(filePath, async () => {
+      try {
+        const fileContent = await this.readEnvFileContent(filePath);
+        await this.writeKeysToFile(filePath, fileContent, keys);
+      } catch (error) {
+        ErrorHandler.captureError(
+          error,
+          "storeKeysInFile",
+          `Failed to store keys "${keyNames}" in "${filePath}"`,
+        );
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Reads the key ring of a stage from CI-provided variables, which take the names the secret
+   * file uses (e.g. QA_SECRET_KEY_V2 and QA_SECRET_KEY_ACTIVE=V2)
+   * @param stage - The environment stage
+   * @returns The stage key ring
+   */
+  public static getEnvironmentKeyRing(stage: EnvironmentStage): StageKeyRing {
+    return this.extractKeyRingFromVariables(process.env, stage);
+  }
+
+  /**
+   * Reads the versioned key ring of a stage (e.g. QA_SECRET_KEY_V1, QA_SECRET_KEY_V2)
+   * together with its active-key marker (e.g. QA_SECRET_KEY_ACTIVE=V2)
+   * @param stage - The environment stage
+   * @param filePath - Optional path to environment file, defaults to secret environment file
+   * @returns Promise resolving to the stage key ring
+   */
+  public static async getStageKeyRing(
+    stage: EnvironmentStage,
+    filePath?: string,
+  ): Promise<StageKeyRing> {
+    const targetFilePath = this.resolveFilePath(filePath);
+
+    await FileLockManager.waitForUnlock(targetFilePath);
+
+    try {
+      const fileContent = await this.readEnvFileContent(targetFilePath);
+      return this.extractKeyRing(fileContent, stage);
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "getStageKeyRing",
+        `Failed to read key ring for stage "${stage}" from "${targetFilePath}"`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Adds a secret key to the stage key ring under the next version ID
+   * @param stage - The environment stage
+   * @param secretKey - The secret key to add
+   * @param options - Optional parameters to control behavior
+   * @param options.activate - If true, marks the new key as the active key (default: true)
+   * @param options.filePath - Optional path to environment file, defaults to secret environment file
+   * @returns Promise resolving to the key ID assigned to the new key
+   */
+  public static async addStageKeyVersion(
+    stage: EnvironmentStage,
+    secretKey: string,
+    options: { activate?: boolean; filePath?: string } = {},
+  ): Promise<string> {
+    const { activate = true } = options;
+    const targetFilePath = this.resolveFilePath(options.filePath);
+
+    return this.executeWithFileLock(targetFilePath, async () => {
+      try {
+        const fileContent = await this.readEnvFileContent(targetFilePath);
+        const keyId = this.getNextKeyId(this.extractKeyRing(fileContent, stage));
+
+        const keys: Record<string, string> = {
+          [SecretFilePathResolver.getKeyRingVariable(stage, keyId)]: secretKey,
+        };
+        if (activate) {
+          keys[SecretFilePathResolver.getActiveKeyVariables()[stage]] = keyId;
+        }
+
+        await this.writeKeysToFile(targetFilePath, fileContent, keys);
+        return keyId;
+      } catch (error) {
+        ErrorHandler.captureError(
+          error,
+          "addStageKeyVersion",
+          `Failed to add key version for stage "${stage}" in "${targetFilePath}"`,
+        );
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Marks a key of the stage key ring as the active key
+   * @param stage - The environment stage
+   * @param keyId - The ID of the key to activate (e.g. "V2")
+   * @param filePath - Optional path to environment file, defaults to secret environment file
+   * @throws Error if the key ID is not part of the key ring
+   */
+  public static async setActiveKeyVersion(
+    stage: EnvironmentStage,
+    keyId: string,
+    filePath?: string,
+  ): Promise<void> {
+    const keyRing = await this.getStageKeyRing(stage, filePath);
+
+    if (!keyRing.keys[keyId]) {
+      ErrorHandler.logAndThrow(
+        "setActiveKeyVersion",
+        `Key "${keyId}" is not part of the key ring for stage "${stage}". ` +
+          `Available keys: ${Object.keys(keyRing.keys).join(", ") || "none"}`,
+      );
+    }
+
+    await this.storeKeyInFile(
+      this.resolveFilePath(filePath),
+      SecretFilePathResolver.getActiveKeyVariables()[stage],
+      keyId,
+    );
+  }
+
+  /**
+   * Determines the next version ID for a key ring
+   * @param keyRing - The current key ring
+   * @returns The next key ID (e.g. "V3" when V1 and V2 exist)
+   */
+  public static getNextKeyId(keyRing: StageKeyRing): string {
+    const prefix = ENVIRONMENT_CONSTANTS.KEY_VERSION_PREFIX;
+    const highestVersion = Object.keys(keyRing.keys)
+      .map((keyId) => parseInt(keyId.substring(prefix.length), 10))
+      .reduce((highest, version) => Math.max(highest, version), 0);
+
+    return `${prefix}${highestVersion + 1}`;
+  }
+
+  /**
+   * Resolves the name of the key currently used by a stage: the active key ring
+   * entry when the stage has one, otherwise <STAGE>_SECRET_KEY
+   * @param stage - The environment stage
+   * @returns Promise resolving to the current key name
+   */
+  public static async getCurrentStageKeyName(stage: EnvironmentStage): Promise<string> {
+    const keyRing = await this.getStageKeyRing(stage);
+
+    return keyRing.activeKeyId
+      ? SecretFilePathResolver.getKeyRingVariable(stage, keyRing.activeKeyId)
+      : SecretFilePathResolver.getSecretVariables()[stage];
+  }
+
+  /**
+   * Retrieves the creation and rotation timestamps recorded for a key
+   * @param keyName - The name of the secret key
+   * @returns Promise resolving to the key metadata, or undefined if none was recorded
+   */
+  public static async getKeyMetadata(keyName: string): Promise<KeyMetadata | undefined> {
+    const metadataFilePath = SecretFilePathResolver.getKeyMetadataFilePath();
+
+    await FileLockManager.waitForUnlock(metadataFilePath);
+
+    try {
+      const metadata = await this.readKeyMetadataFile(metadataFilePath);
+      return metadata[keyName];
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "getKeyMetadata",
+        `Failed to read metadata for key "${keyName}" from "${metadataFilePath}"`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Records that a key was created, resetting its age
+   * @param keyName - The name of the secret key
+   * @param options - Optional parameters to control behavior
+   * @param options.rotated - If true, also records the key as the result of a rotation (default: false)
+   */
+  public static async recordKeyCreated(
+    keyName: string,
+    options: { rotated?: boolean } = {},
+  ): Promise<void> {
+    const metadataFilePath = SecretFilePathResolver.getKeyMetadataFilePath();
+
+    return this.executeWithFileLock(metadataFilePath, async () => {
+      try {
+        const metadata = await this.readKeyMetadataFile(metadataFilePath);
+        const now = new Date().toISOString();
+
+        metadata[keyName] = options.rotated
+          ? { createdAt: now, rotatedAt: now }
+          : { createdAt: now };
+
+        await AsyncFileManager.writeFile(
+          metadataFilePath,
+          JSON.stringify(metadata, null, 2),
+          `${keyName} metadata`,
+          FileEncoding.UTF8,
+          GENERATED_FILE_WRITE_OPTIONS,
+        );
+      } catch (error) {
+        ErrorHandler.captureError(
+          error,
+          "recordKeyCreated",
+          `Failed to record metadata for key "${keyName}" in "${metadataFilePath}"`,
+        );
+        throw error;
+      }
+    });
+  }
+
   /**
    * Retrieves the value for a specific environment key from any file
    * @param filePath - Path to the environment file
@@ -70,7 +303,7 @@ export default class SecretFileManager {
    */
   public static async getKeyValue(filePath: string, keyName: string): Promise<string | undefined> {
     // Wait for any ongoing write operations to complete before reading
-    await this.waitForFileLock(filePath);
+    await FileLockManager.waitForUnlock(filePath);
 
     try {
       const fileContent = await this.readEnvFileContent(filePath);
@@ -124,7 +357,13 @@ export default class SecretFileManager {
 
     if (!fileExists) {
       logger.warn(`Environment file not found at "${filePath}". Creating new empty file.`);
-      await AsyncFileManager.writeFile(filePath, "", "Created empty environment file");
+      await AsyncFileManager.writeFile(
+        filePath,
+        "",
+        "Created empty environment file",
+        FileEncoding.UTF8,
+        ENVIRONMENT_FILE_WRITE_OPTIONS,
+      );
     }
   }
 
@@ -163,7 +402,7 @@ export default class SecretFileManager {
     const targetFilePath = this.resolveFilePath(filePath);
 
     // Wait for any ongoing file operations to complete
-    await this.waitForFileLock(targetFilePath);
+    await FileLockManager.waitForUnlock(targetFilePath);
 
     const keyExists = await this.verifySecretKeyExists(secretKeyName, filePath);
 
@@ -188,7 +427,8 @@ export default class SecretFileManager {
   }
 
   /**
-   * Executes a function with file lock protection to prevent race conditions
+   * Executes a function while holding the on-disk lock of a file, so writes from other
+   * Playwright worker processes cannot interleave with it
    * @param filePath - Path to the file being operated on
    * @param operation - The async operation to execute
    * @returns Promise resolving to the operation result
@@ -197,45 +437,7 @@ export default class SecretFileManager {
     filePath: string,
     operation: () => Promise<T>,
   ): Promise<T> {
-    // Wait for any existing lock on this file
-    await this.waitForFileLock(filePath);
-
-    // Create a new lock for this operation
-    const lockPromise = this.createFileLock(filePath, operation);
-
-    try {
-      return await lockPromise;
-    } finally {
-      this.fileLocks.delete(filePath);
-    }
-  }
-
-  /**
-   * Creates a file lock for the given file path
-   * @param filePath - Path to the file being locked
-   * @param operation - The operation to execute under lock
-   * @returns Promise for the locked operation
-   */
-  private static createFileLock<T>(filePath: string, operation: () => Promise<T>): Promise<T> {
-    const lockPromise = operation();
-    this.fileLocks.set(
-      filePath,
-      lockPromise.then(() => undefined).catch(() => undefined),
-    );
-    return lockPromise;
-  }
-
-  /**
-   * Waits for any existing file lock to complete
-   * @param filePath - Path to the file to wait for
-   */
-  private static async waitForFileLock(filePath: string): Promise<void> {
-    const existingLock = this.fileLocks.get(filePath);
-    if (existingLock) {
-      logger.debug(`Waiting for file lock on "${filePath}" to complete...`);
-      await existingLock;
-      logger.debug(`File lock on "${filePath}" released, proceeding...`);
-    }
+    return FileLockManager.withLock(filePath, operation);
   }
 
   /**
@@ -266,7 +468,81 @@ export default class SecretFileManager {
   }
 
   /**
-   * Writes updated content to environment file and logs success
+   * Reads the key metadata file, treating a missing file as empty
+   * @param metadataFilePath - Path to the key metadata file
+   * @returns Promise resolving to the metadata keyed by key name
+   */
+  private static async readKeyMetadataFile(
+    metadataFilePath: string,
+  ): Promise<Record<string, KeyMetadata>> {
+    if (!(await AsyncFileManager.doesFileExist(metadataFilePath))) {
+      return {};
+    }
+
+    const content = await AsyncFileManager.readFile(metadataFilePath, FileEncoding.UTF8);
+    return content.trim() ? (JSON.parse(content) as Record<string, KeyMetadata>) : {};
+  }
+
+  /**
+   * Applies several key updates to the file content and writes it in a single write
+   * @param filePath - Path to the environment file
+   * @param fileContent - The current file content
+   * @param keys - Object containing key names and values to store
+   */
+  private static async writeKeysToFile(
+    filePath: string,
+    fileContent: string,
+    keys: Record<string, string>,
+  ): Promise<void> {
+    const updatedContent = Object.entries(keys).reduce(
+      (content, [keyName, value]) => this.updateEnvironmentKey(content, keyName, value),
+      fileContent,
+    );
+    await this.writeUpdatedEnvironmentFile(filePath, updatedContent, Object.keys(keys).join(", "));
+  }
+
+  /**
+   * Extracts the versioned keys and the active-key marker of a stage from the file content
+   * @param fileContent - The content to search in
+   * @param stage - The environment stage
+   * @returns The stage key ring
+   */
+  private static extractKeyRing(fileContent: string, stage: EnvironmentStage): StageKeyRing {
+    return this.extractKeyRingFromVariables(
+      EnvironmentFileParser.getVariables(EnvironmentFileParser.parse(fileContent)),
+      stage,
+    );
+  }
+
+  /**
+   * Collects the key ring of a stage from a set of variables
+   * @param variables - Variables by name, from the secret file or the process environment
+   * @param stage - The environment stage
+   * @returns The stage key ring
+   */
+  private static extractKeyRingFromVariables(
+    variables: Record<string, string | undefined>,
+    stage: EnvironmentStage,
+  ): StageKeyRing {
+    const keyName = this.escapeKeyNameForRegex(SecretFilePathResolver.getSecretVariables()[stage]);
+    const versionPrefix = this.escapeKeyNameForRegex(ENVIRONMENT_CONSTANTS.KEY_VERSION_PREFIX);
+    const keyRingPattern = new RegExp(`^${keyName}_(${versionPrefix}\\d+)$`);
+
+    const keys: Record<string, string> = {};
+    for (const [variableName, value] of Object.entries(variables)) {
+      const match = keyRingPattern.exec(variableName);
+      if (match && value?.trim()) {
+        keys[match[1]] = value.trim();
+      }
+    }
+
+    const activeKeyId = variables[SecretFilePathResolver.getActiveKeyVariables()[stage]]?.trim();
+
+    return { activeKeyId: activeKeyId || undefined, keys };
+  }
+
+  /**
+   * Snapshots the current file content, then writes the updated content and logs success
    * @param filePath - Path to the environment file
    * @param updatedContent - The content to write
    * @param keyName - The key name being updated (for logging)
@@ -276,7 +552,14 @@ export default class SecretFileManager {
     updatedContent: string,
     keyName: string,
   ): Promise<void> {
-    await AsyncFileManager.writeFile(filePath, updatedContent, keyName);
+    await SnapshotFileManager.createSnapshot(filePath, `store ${keyName}`);
+    await AsyncFileManager.writeFile(
+      filePath,
+      updatedContent,
+      keyName,
+      FileEncoding.UTF8,
+      ENVIRONMENT_FILE_WRITE_OPTIONS,
+    );
     logger.info(`Key "${keyName}" stored successfully`);
   }
 
@@ -301,30 +584,10 @@ export default class SecretFileManager {
    * @returns The value of the key, or undefined if not found
    */
   private static extractKeyValue(fileContent: string, keyName: string): string | undefined {
-    const regex = this.createKeyRegex(keyName, { captureValue: true });
-    const match = fileContent.match(regex);
-    return match?.[1];
-  }
-
-  /**
-   * Creates a regex pattern for matching environment keys
-   * @param keyName - The key name to create regex for
-   * @param options - Configuration options
-   * @param options.captureValue - If true, captures the value in a group (default: false)
-   * @param options.flags - Regex flags to use (default: "m")
-   * @returns Regular expression for matching the key
-   */
-  private static createKeyRegex(
-    keyName: string,
-    options: {
-      captureValue?: boolean;
-      flags?: string;
-    } = {},
-  ): RegExp {
-    const { captureValue = false, flags = "m" } = options;
-    const escapedKeyName = this.escapeKeyNameForRegex(keyName);
-    const pattern = captureValue ? `^${escapedKeyName}=(.*)$` : `^${escapedKeyName}=.*$`;
-    return new RegExp(pattern, flags);
+    const variables = EnvironmentFileParser.getVariables(EnvironmentFileParser.parse(fileContent));
+    return Object.prototype.hasOwnProperty.call(variables, keyName)
+      ? variables[keyName]
+      : undefined;
   }
 
   /**
@@ -337,82 +600,22 @@ export default class SecretFileManager {
   }
 
   /**
-   * Updates an existing environment key or adds a new one to the file content
+   * Updates an existing environment key or adds a new one to the file content, leaving the
+   * rest of the file as written
    * @param fileContent - The current content of the environment file
    * @param keyName - The name of the environment key
    * @param value - The value to set for the key
    * @returns The updated file content
    */
   private static updateEnvironmentKey(fileContent: string, keyName: string, value: string): string {
-    if (this.environmentKeyExists(fileContent, keyName)) {
-      return this.updateExistingEnvironmentKey(fileContent, keyName, value);
-    } else {
-      return this.addEnvironmentKey(fileContent, keyName, value);
+    if (this.extractKeyValue(fileContent, keyName) === undefined) {
+      logger.warn(`Key "${keyName}" not found, appending to end of file`);
     }
-  }
-
-  /**
-   * Checks if an environment key exists in the file content
-   * @param fileContent - The content to search in
-   * @param keyName - The key name to look for
-   * @returns True if the key exists, false otherwise
-   */
-  private static environmentKeyExists(fileContent: string, keyName: string): boolean {
-    const regex = this.createKeyRegex(keyName);
-    return regex.test(fileContent);
-  }
-
-  /**
-   * Updates an existing environment key in the file content
-   * @param fileContent - The current file content
-   * @param keyName - The key name to update
-   * @param value - The new value for the key
-   * @returns Updated file content
-   */
-  private static updateExistingEnvironmentKey(
-    fileContent: string,
-    keyName: string,
-    value: string,
-  ): string {
-    const regex = this.createKeyRegex(keyName);
-    const formattedKeyValue = this.formatEnvironmentKeyValue(keyName, value);
-    return fileContent.replace(regex, formattedKeyValue);
-  }
 
-  /**
-   * Formats a key-value pair for environment file
-   * @param keyName - The key name
-   * @param value - The value
-   * @returns Formatted string "KEY=VALUE"
-   */
-  private static formatEnvironmentKeyValue(keyName: string, value: string): string {
-    return `${keyName}=${value}`;
-  }
-
-  /**
-   * Adds a new environment key to the file content
-   * @param fileContent - The current file content
-   * @param keyName - The key name to add
-   * @param value - The value for the key
-   * @returns Updated file content with new key appended
-   */
-  private static addEnvironmentKey(fileContent: string, keyName: string, value: string): string {
-    const contentWithNewline = this.ensureFileEndsWithNewline(fileContent);
-    const formattedKeyValue = this.formatEnvironmentKeyValue(keyName, value);
-
-    logger.warn(`Key "${keyName}" not found, appending to end of file`);
-    return contentWithNewline + formattedKeyValue;
-  }
-
-  /**
-   * Ensures file content ends with a newline before adding new content
-   * @param content - The file content to check
-   * @returns Content with newline if needed
-   */
-  private static ensureFileEndsWithNewline(content: string): string {
-    if (content && !content.endsWith("\n")) {
-      return content + "\n";
-    }
-    return content;
+    return EnvironmentFileParser.format(
+      EnvironmentFileParser.setVariables(EnvironmentFileParser.parse(fileContent), {
+        [keyName]: value,
+      }),
+    );
   }
 }
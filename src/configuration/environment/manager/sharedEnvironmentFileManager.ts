@@ -0,0 +1,127 @@
+import * as crypto from "crypto";
+import * as os from "os";
+import path from "path";
+import { AsyncFileManager } from "../../../utils/fileManager/asyncFileManager";
+import EncryptionService from "../../../cryptography/service/encryptionService";
+import { CRYPTO_CONFIG } from "../../../cryptography/types/crypto.config";
+import { ENVIRONMENT_CONSTANTS } from "../constants/environment.constants";
+import type { EnvironmentStage } from "../constants/environment.constants";
+import type { SharedEnvironment } from "../types/environment.types";
+import { FileEncoding } from "../../../utils/fileManager/internal/file-encoding.enum";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+import logger from "../../../utils/logger/loggerManager";
+
+export default class SharedEnvironmentFileManager {
+  /**
+   * Encrypts the decrypted configurations with a one-time key and writes them to a temp file.
+   * The file path and key are set in process.env, which Playwright passes on to every
+   * worker, so workers can load the configuration without deriving keys again.
+   * @param sharedEnvironments - The configurations to share, one per stage
+   * @returns Promise resolving to the path of the temp file
+   */
+  public static async publish(sharedEnvironments: SharedEnvironment[]): Promise<string> {
+    const filePath = path.join(
+      os.tmpdir(),
+      `${ENVIRONMENT_CONSTANTS.SHARED_FILE_PREFIX}${process.pid}-${crypto.randomBytes(8).toString("hex")}`,
+    );
+
+    try {
+      const oneTimeKey = crypto.randomBytes(CRYPTO_CONFIG.BYTE_LENGTHS.SECRET_KEY);
+      const content = await EncryptionService.encryptWithRawKey(
+        JSON.stringify(sharedEnvironments),
+        oneTimeKey,
+      );
+
+      await AsyncFileManager.writeFile(filePath, content, "shared environment");
+
+      process.env[ENVIRONMENT_CONSTANTS.SHARED_FILE_VAR] = filePath;
+      process.env[ENVIRONMENT_CONSTANTS.SHARED_KEY_VAR] = oneTimeKey.toString("base64");
+
+      logger.debug(
+        `Shared the environment of ${sharedEnvironments.length} stages with workers: ${sharedEnvironments.map(({ stage, variables }) => `${stage} (${Object.keys(variables).length} variables)`).join(", ")}`,
+      );
+      return filePath;
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "publish",
+        `Failed to share the environment with workers at "${filePath}"`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Checks whether global setup shared a configuration with this process
+   * @returns True if the shared file path and key are set in process.env
+   */
+  public static isAvailable(): boolean {
+    return !!(
+      process.env[ENVIRONMENT_CONSTANTS.SHARED_FILE_VAR] &&
+      process.env[ENVIRONMENT_CONSTANTS.SHARED_KEY_VAR]
+    );
+  }
+
+  /**
+   * Reads and decrypts the configuration of a stage shared by global setup
+   * @param stage - The environment stage
+   * @returns Promise resolving to the shared configuration, or undefined if none was shared
+   * for the stage or the temp file no longer exists
+   */
+  public static async load(stage: EnvironmentStage): Promise<SharedEnvironment | undefined> {
+    if (!this.isAvailable()) {
+      return undefined;
+    }
+
+    const filePath = process.env[ENVIRONMENT_CONSTANTS.SHARED_FILE_VAR]!;
+
+    try {
+      if (!(await AsyncFileManager.doesFileExist(filePath))) {
+        logger.warn(`Shared environment file not found: ${filePath} — loading environment files`);
+        return undefined;
+      }
+
+      const content = await AsyncFileManager.readFile(filePath, FileEncoding.UTF8);
+      const oneTimeKey = Buffer.from(process.env[ENVIRONMENT_CONSTANTS.SHARED_KEY_VAR]!, "base64");
+
+      const sharedEnvironments = JSON.parse(
+        await EncryptionService.decryptWithRawKey(content, oneTimeKey),
+      ) as SharedEnvironment[];
+
+      return sharedEnvironments.find((sharedEnvironment) => sharedEnvironment.stage === stage);
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "load",
+        `Failed to load the shared environment of stage "${stage}" from "${filePath}"`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes the shared temp file and removes its path and key from process.env
+   */
+  public static async remove(): Promise<void> {
+    const filePath = process.env[ENVIRONMENT_CONSTANTS.SHARED_FILE_VAR];
+
+    delete process.env[ENVIRONMENT_CONSTANTS.SHARED_FILE_VAR];
+    delete process.env[ENVIRONMENT_CONSTANTS.SHARED_KEY_VAR];
+
+    if (!filePath || !(await AsyncFileManager.doesFileExist(filePath))) {
+      return;
+    }
+
+    try {
+      await AsyncFileManager.deleteFile(filePath);
+      logger.debug("Removed shared environment file");
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "remove",
+        `Failed to remove the shared environment file "${filePath}"`,
+      );
+      throw error;
+    }
+  }
+}
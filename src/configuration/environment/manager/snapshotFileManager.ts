@@ -0,0 +1,512 @@
+import * as crypto from "crypto";
+import { AsyncFileManager } from "../../../utils/fileManager/asyncFileManager";
+import { FileLockManager } from "../../../utils/fileManager/fileLockManager";
+import StagesFileManager from "./stagesFileManager";
+import ManifestFileManager from "./manifestFileManager";
+import SecretFilePathResolver from "./filePath/secretFilePathResolver";
+import StagesFilePathResolver from "./filePath/stagesFilePathResolver";
+import EnvironmentDetector from "../../detector/environmentDetector";
+import EnvironmentStageResolver from "../stages/environmentStageResolver";
+import EncryptionService from "../../../cryptography/service/encryptionService";
+import { CRYPTO_CONFIG, CRYPTO_CONSTANTS } from "../../../cryptography/types/crypto.config";
+import {
+  ENVIRONMENT_CONSTANTS,
+  ENVIRONMENT_FILE_WRITE_OPTIONS,
+  GENERATED_FILE_WRITE_OPTIONS,
+  SNAPSHOT_RETENTION,
+} from "../constants/environment.constants";
+import type { EnvironmentStage } from "../constants/environment.constants";
+import type {
+  EnvironmentSnapshot,
+  EnvironmentSnapshotDiff,
+  EnvironmentSnapshotInfo,
+  EnvironmentSnapshotKey,
+  SnapshotRetentionPolicy,
+} from "../types/environment.types";
+import { FileEncoding } from "../../../utils/fileManager/internal/file-encoding.enum";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+import logger from "../../../utils/logger/loggerManager";
+
+export default class SnapshotFileManager {
+  private static readonly SNAPSHOT_ID_PATTERN = /^\d{8}T\d{9}Z-[0-9a-f]{6}$/;
+
+  /**
+   * Stores an encrypted snapshot of the current content of .env.secret or a stage file under
+   * envs/.history, then prunes the snapshots beyond the retention limits. A stage file snapshot
+   * can be read with any key the stage holds at the time, a snapshot of .env.secret with any key
+   * of any stage, so neither a rotation nor replacing one stage key by mistake locks it.
+   * @param filePath - Path to the environment file
+   * @param reason - Describes the change about to be made (e.g. "store QA_SECRET_KEY")
+   * @returns Promise resolving to the stored snapshot, or undefined when snapshots are disabled,
+   * or the file is missing, empty, not a secret or stage file, or no stage key exists yet
+   */
+  public static async createSnapshot(
+    filePath: string,
+    reason: string,
+  ): Promise<EnvironmentSnapshotInfo | undefined> {
+    const retention = this.getRetentionPolicy();
+
+    if (retention.maxSnapshots === 0 || !this.isSnapshotFile(filePath)) {
+      return undefined;
+    }
+
+    try {
+      if (!(await AsyncFileManager.doesFileExist(filePath))) {
+        return undefined;
+      }
+
+      const content = await AsyncFileManager.readFile(filePath, FileEncoding.UTF8);
+
+      if (!content.trim()) {
+        logger.debug(`Nothing to snapshot in "${filePath}"`);
+        return undefined;
+      }
+
+      const stageKeys = await this.getSnapshotStageKeys(filePath, content);
+
+      if (stageKeys.length === 0) {
+        logger.warn(`No stage key to encrypt a snapshot of "${filePath}" with — none stored`);
+        return undefined;
+      }
+
+      const dataKey = crypto.randomBytes(CRYPTO_CONFIG.BYTE_LENGTHS.SECRET_KEY);
+      const snapshot: EnvironmentSnapshot = {
+        version: CRYPTO_CONSTANTS.SNAPSHOT.SNAPSHOT_VERSION,
+        id: this.createSnapshotId(),
+        fileName: AsyncFileManager.getBaseNameWithExtension(filePath),
+        createdAt: new Date().toISOString(),
+        reason,
+        keys: await Promise.all(
+          stageKeys.map(({ keyName, secretKey }) => this.wrapDataKey(dataKey, keyName, secretKey)),
+        ),
+        content: await EncryptionService.encryptWithRawKey(content, dataKey),
+      };
+
+      await AsyncFileManager.writeFile(
+        this.getSnapshotFilePath(filePath, snapshot.id),
+        JSON.stringify(snapshot, null, 2),
+        "environment snapshot",
+        FileEncoding.UTF8,
+        GENERATED_FILE_WRITE_OPTIONS,
+      );
+      logger.debug(`Stored snapshot "${snapshot.id}" of "${snapshot.fileName}" (${reason})`);
+
+      await this.pruneSnapshots(filePath, retention);
+
+      return this.toSnapshotInfo(snapshot);
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "createSnapshot",
+        `Failed to store a snapshot of "${filePath}"`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the snapshots stored for an environment file
+   * @param filePath - Path to the environment file
+   * @returns Promise resolving to the snapshots, newest first
+   */
+  public static async listSnapshots(filePath: string): Promise<EnvironmentSnapshotInfo[]> {
+    const snapshotDirectory = StagesFilePathResolver.getSnapshotDirectory(filePath);
+
+    try {
+      const snapshotIds = (await AsyncFileManager.listFiles(snapshotDirectory))
+        .filter((fileName) => fileName.endsWith(ENVIRONMENT_CONSTANTS.SNAPSHOT_FILE_EXTENSION))
+        .map((fileName) => AsyncFileManager.getBaseName(fileName))
+        .sort()
+        .reverse();
+
+      const snapshots: EnvironmentSnapshotInfo[] = [];
+      for (const snapshotId of snapshotIds) {
+        snapshots.push(this.toSnapshotInfo(await this.readSnapshotFile(filePath, snapshotId)));
+      }
+
+      return snapshots;
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "listSnapshots",
+        `Failed to list snapshots in "${snapshotDirectory}"`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Reads and decrypts the file content stored in a snapshot with any stage key that encrypted
+   * it, read from .env.secret, or from the process environment in CI
+   * @param filePath - Path to the environment file
+   * @param snapshotId - The ID of the snapshot
+   * @returns Promise resolving to the file content at the time of the snapshot
+   * @throws Error if the snapshot does not exist or none of the keys that encrypted it is stored
+   */
+  public static async getSnapshotContent(filePath: string, snapshotId: string): Promise<string> {
+    try {
+      const snapshot = await this.readSnapshotFile(filePath, snapshotId);
+
+      if (snapshot.version !== CRYPTO_CONSTANTS.SNAPSHOT.SNAPSHOT_VERSION) {
+        ErrorHandler.logAndThrow(
+          "getSnapshotContent",
+          `Snapshot "${snapshotId}" has version ${snapshot.version}; only version ${CRYPTO_CONSTANTS.SNAPSHOT.SNAPSHOT_VERSION} snapshots can be read`,
+        );
+      }
+
+      const dataKey = await this.unwrapDataKey(snapshot.keys);
+
+      if (!dataKey) {
+        ErrorHandler.logAndThrow(
+          "getSnapshotContent",
+          `None of the keys that encrypted snapshot "${snapshotId}" is stored: ${snapshot.keys.map(({ keyName }) => keyName).join(", ")}`,
+        );
+      }
+
+      return await EncryptionService.decryptWithRawKey(snapshot.content, dataKey);
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "getSnapshotContent",
+        `Failed to read snapshot "${snapshotId}" of "${filePath}"`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Compares the variables of a snapshot with another snapshot or with the current file
+   * @param filePath - Path to the environment file
+   * @param snapshotId - The ID of the older snapshot
+   * @param compareToId - Optional ID of the newer snapshot, defaults to the current file
+   * @returns Promise resolving to the names of the added, removed and changed variables
+   */
+  public static async diffSnapshot(
+    filePath: string,
+    snapshotId: string,
+    compareToId?: string,
+  ): Promise<EnvironmentSnapshotDiff> {
+    try {
+      const before = this.extractVariables(await this.getSnapshotContent(filePath, snapshotId));
+      const after = this.extractVariables(
+        compareToId
+          ? await this.getSnapshotContent(filePath, compareToId)
+          : await this.readCurrentContent(filePath),
+      );
+
+      return {
+        added: Object.keys(after).filter((key) => !(key in before)),
+        removed: Object.keys(before).filter((key) => !(key in after)),
+        changed: Object.keys(after).filter((key) => key in before && before[key] !== after[key]),
+      };
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "diffSnapshot",
+        `Failed to compare snapshot "${snapshotId}" of "${filePath}"`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces an environment file with the content of a snapshot while holding the file's lock.
+   * The current content is snapshotted first so the restore can itself be undone, and stage
+   * files are re-signed. Restoring .env.secret can bring back keys that no longer match the
+   * integrity manifests of the stage files.
+   * @param filePath - Path to the environment file
+   * @param snapshotId - The ID of the snapshot to restore
+   */
+  public static async restoreSnapshot(filePath: string, snapshotId: string): Promise<void> {
+    try {
+      const content = await this.getSnapshotContent(filePath, snapshotId);
+
+      await FileLockManager.withLock(filePath, async () => {
+        await this.createSnapshot(filePath, `restore snapshot ${snapshotId}`);
+        await AsyncFileManager.writeFile(
+          filePath,
+          content,
+          "snapshot restore",
+          FileEncoding.UTF8,
+          ENVIRONMENT_FILE_WRITE_OPTIONS,
+        );
+        await ManifestFileManager.writeManifest(filePath, this.extractVariables(content));
+      });
+
+      logger.info(`Restored "${filePath}" from snapshot "${snapshotId}"`);
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "restoreSnapshot",
+        `Failed to restore snapshot "${snapshotId}" of "${filePath}"`,
+      );
+      throw error;
+    }
+  }
+
+  // Private methods
+
+  /**
+   * Checks whether snapshots are kept for a file
+   * @param filePath - Path to the environment file
+   * @returns True for .env.secret and the stage files
+   */
+  private static isSnapshotFile(filePath: string): boolean {
+    return (
+      AsyncFileManager.resolve(filePath) === SecretFilePathResolver.getSecretFilePath() ||
+      StagesFilePathResolver.getStageForFilePath(filePath) !== undefined
+    );
+  }
+
+  /**
+   * Finds the keys a new snapshot is encrypted with: every key of the file's stage, or of every
+   * stage for .env.secret, taken from the content being snapshotted
+   * @param filePath - Path to the environment file
+   * @param content - The current content of the file
+   * @returns Promise resolving to the stage keys
+   */
+  private static async getSnapshotStageKeys(
+    filePath: string,
+    content: string,
+  ): Promise<{ keyName: string; secretKey: string }[]> {
+    const stage = StagesFilePathResolver.getStageForFilePath(filePath);
+
+    return stage
+      ? this.getStageKeys(await this.readKeyVariables(), [stage])
+      : this.getStageKeys(this.extractVariables(content), EnvironmentStageResolver.getStages());
+  }
+
+  /**
+   * Picks the keys of stages from a set of variables: the stage secret key, the key it
+   * replaced and the key ring versions
+   * @param variables - Variables holding the stage keys
+   * @param stages - The environment stages
+   * @returns The stage keys by variable name
+   */
+  private static getStageKeys(
+    variables: Record<string, string | undefined>,
+    stages: EnvironmentStage[],
+  ): { keyName: string; secretKey: string }[] {
+    return stages.flatMap((stage) => {
+      const stageKeyName = SecretFilePathResolver.getSecretVariables()[stage];
+      const activeKeyName = SecretFilePathResolver.getActiveKeyVariables()[stage];
+
+      return Object.entries(variables).flatMap(([keyName, secretKey]) =>
+        (keyName === stageKeyName || keyName.startsWith(`${stageKeyName}_`)) &&
+        keyName !== activeKeyName &&
+        secretKey?.trim()
+          ? [{ keyName, secretKey: secretKey.trim() }]
+          : [],
+      );
+    });
+  }
+
+  /**
+   * Reads the variables holding stage keys from .env.secret, or from the process environment
+   * in CI, where the stage keys are provided as CI secrets
+   * @returns Promise resolving to the variables
+   */
+  private static async readKeyVariables(): Promise<Record<string, string | undefined>> {
+    if (EnvironmentDetector.isCI()) {
+      return process.env;
+    }
+    return this.extractVariables(
+      await this.readCurrentContent(SecretFilePathResolver.getSecretFilePath()),
+    );
+  }
+
+  /**
+   * Encrypts the data key of a snapshot with a stage key
+   * @param dataKey - The random key the snapshot content is encrypted with
+   * @param keyName - The variable holding the stage key
+   * @param secretKey - The stage key
+   * @returns Promise resolving to the snapshot key entry
+   */
+  private static async wrapDataKey(
+    dataKey: Buffer,
+    keyName: string,
+    secretKey: string,
+  ): Promise<EnvironmentSnapshotKey> {
+    const wrappingKey = EncryptionService.deriveSnapshotKey(secretKey);
+
+    return {
+      keyName,
+      fingerprint: this.getKeyFingerprint(wrappingKey),
+      wrappedKey: await EncryptionService.encryptWithRawKey(
+        dataKey.toString("base64"),
+        wrappingKey,
+      ),
+    };
+  }
+
+  /**
+   * Decrypts the data key of a snapshot with the first stored stage key whose fingerprint
+   * matches one of the snapshot keys. Keys are matched by fingerprint rather than by name, so
+   * a key stored under another name, such as a restored QA_SECRET_KEY that a rotation had moved
+   * to QA_SECRET_KEY_PREVIOUS, still opens the snapshot.
+   * @param snapshotKeys - The keys of the snapshot
+   * @returns Promise resolving to the data key, or undefined if no matching key is stored
+   */
+  private static async unwrapDataKey(
+    snapshotKeys: EnvironmentSnapshotKey[],
+  ): Promise<Buffer | undefined> {
+    const stageKeys = this.getStageKeys(
+      await this.readKeyVariables(),
+      EnvironmentStageResolver.getStages(),
+    );
+
+    for (const { secretKey } of stageKeys) {
+      const wrappingKey = EncryptionService.deriveSnapshotKey(secretKey);
+      const fingerprint = this.getKeyFingerprint(wrappingKey);
+      const snapshotKey = snapshotKeys.find((key) => key.fingerprint === fingerprint);
+
+      if (snapshotKey) {
+        const dataKey = await EncryptionService.decryptWithRawKey(
+          snapshotKey.wrappedKey,
+          wrappingKey,
+        );
+        return Buffer.from(dataKey, "base64");
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Identifies a snapshot key without revealing it
+   * @param snapshotKey - The key derived from a stage key
+   * @returns The first 16 hex characters of its SHA-256 hash
+   */
+  private static getKeyFingerprint(snapshotKey: Buffer): string {
+    return crypto.createHash("sha256").update(snapshotKey).digest("hex").substring(0, 16);
+  }
+
+  /**
+   * Leaves the encrypted content and keys out of a snapshot
+   * @param snapshot - The snapshot
+   * @returns The snapshot details with the names of the keys that can read it
+   */
+  private static toSnapshotInfo(snapshot: EnvironmentSnapshot): EnvironmentSnapshotInfo {
+    const { version: _version, keys, content: _content, ...snapshotInfo } = snapshot;
+    // Snapshots of earlier versions carry no stage keys
+    return { ...snapshotInfo, keyNames: (keys ?? []).map(({ keyName }) => keyName) };
+  }
+
+  /**
+   * Resolves the retention limits, applying SNAPSHOT_MAX_COUNT and SNAPSHOT_MAX_AGE_DAYS
+   * overrides from the environment
+   * @returns The effective retention policy
+   */
+  private static getRetentionPolicy(): SnapshotRetentionPolicy {
+    const policy = { ...SNAPSHOT_RETENTION };
+    const maxSnapshots = parseInt(process.env.SNAPSHOT_MAX_COUNT || "", 10);
+    const maxAgeDays = parseInt(process.env.SNAPSHOT_MAX_AGE_DAYS || "", 10);
+
+    if (!Number.isNaN(maxSnapshots) && maxSnapshots >= 0) {
+      policy.maxSnapshots = maxSnapshots;
+    }
+
+    if (!Number.isNaN(maxAgeDays) && maxAgeDays > 0) {
+      policy.maxAgeDays = maxAgeDays;
+    }
+
+    return policy;
+  }
+
+  /**
+   * Deletes the snapshots of a file beyond the maximum count or older than the maximum age
+   * @param filePath - Path to the environment file
+   * @param retention - The retention limits
+   */
+  private static async pruneSnapshots(
+    filePath: string,
+    retention: SnapshotRetentionPolicy,
+  ): Promise<void> {
+    const oldestKept = Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000;
+    const expiredSnapshots = (await this.listSnapshots(filePath)).filter(
+      (snapshot, index) =>
+        index >= retention.maxSnapshots || new Date(snapshot.createdAt).getTime() < oldestKept,
+    );
+
+    for (const snapshot of expiredSnapshots) {
+      await AsyncFileManager.deleteFile(this.getSnapshotFilePath(filePath, snapshot.id));
+    }
+
+    if (expiredSnapshots.length > 0) {
+      logger.debug(`Pruned ${expiredSnapshots.length} snapshots of "${filePath}"`);
+    }
+  }
+
+  /**
+   * Reads a stored snapshot
+   * @param filePath - Path to the environment file
+   * @param snapshotId - The ID of the snapshot
+   * @returns Promise resolving to the snapshot
+   * @throws Error if the ID is malformed or the snapshot does not exist
+   */
+  private static async readSnapshotFile(
+    filePath: string,
+    snapshotId: string,
+  ): Promise<EnvironmentSnapshot> {
+    if (!this.SNAPSHOT_ID_PATTERN.test(snapshotId)) {
+      ErrorHandler.logAndThrow("readSnapshotFile", `Invalid snapshot ID "${snapshotId}"`);
+    }
+
+    const snapshotFilePath = this.getSnapshotFilePath(filePath, snapshotId);
+
+    if (!(await AsyncFileManager.doesFileExist(snapshotFilePath))) {
+      ErrorHandler.logAndThrow(
+        "readSnapshotFile",
+        `Snapshot "${snapshotId}" of "${filePath}" does not exist`,
+      );
+    }
+
+    const content = await AsyncFileManager.readFile(snapshotFilePath, FileEncoding.UTF8);
+    return JSON.parse(content) as EnvironmentSnapshot;
+  }
+
+  /**
+   * Reads the current content of a file, treating a missing file as empty
+   * @param filePath - Path to the environment file
+   * @returns Promise resolving to the file content
+   */
+  private static async readCurrentContent(filePath: string): Promise<string> {
+    if (!(await AsyncFileManager.doesFileExist(filePath))) {
+      return "";
+    }
+    return AsyncFileManager.readFile(filePath, FileEncoding.UTF8);
+  }
+
+  /**
+   * Parses the variables of an environment file's content
+   * @param content - The file content
+   * @returns The variables by name
+   */
+  private static extractVariables(content: string): Record<string, string> {
+    return StagesFileManager.extractEnvironmentVariables(
+      StagesFileManager.parseFileContentToLines(content),
+    );
+  }
+
+  /**
+   * Creates a snapshot ID that sorts in creation order, e.g. "20260115T093012345Z-a1b2c3"
+   * @returns The snapshot ID
+   */
+  private static createSnapshotId(): string {
+    const timestamp = new Date().toISOString().replace(/[-:.]/g, "");
+    return `${timestamp}-${crypto.randomBytes(3).toString("hex")}`;
+  }
+
+  /**
+   * Resolves the path of a snapshot file
+   * @param filePath - Path to the environment file
+   * @param snapshotId - The ID of the snapshot
+   * @returns The snapshot file path
+   */
+  private static getSnapshotFilePath(filePath: string, snapshotId: string): string {
+    return AsyncFileManager.join(
+      StagesFilePathResolver.getSnapshotDirectory(filePath),
+      `${snapshotId}${ENVIRONMENT_CONSTANTS.SNAPSHOT_FILE_EXTENSION}`,
+    );
+  }
+}
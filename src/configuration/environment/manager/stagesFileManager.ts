@@ -1,5 +1,13 @@
 import { AsyncFileManager } from "../../../utils/fileManager/asyncFileManager";
+import { FileLockManager } from "../../../utils/fileManager/fileLockManager";
+import ManifestFileManager from "./manifestFileManager";
+import SnapshotFileManager from "./snapshotFileManager";
+import EnvironmentFileParser from "../parser/environmentFileParser";
+import EncryptionService from "../../../cryptography/service/encryptionService";
 import { CRYPTO_CONSTANTS } from "../../../cryptography/types/crypto.config";
+import { ENVIRONMENT_FILE_WRITE_OPTIONS } from "../constants/environment.constants";
+import type { EncryptionFileHeader } from "../../../cryptography/types/crypto.types";
+import type { EnvironmentFileDocument } from "../types/environment.types";
 import { FileEncoding } from "../../../utils/fileManager/internal/file-encoding.enum";
 import ErrorHandler from "../../../utils/errorHandling/errorHandler";
 import logger from "../../../utils/logger/loggerManager";
@@ -29,6 +37,14 @@ export default class StagesFileManager {
     }
   }
 
+  /**
+   * Writes lines to an environment file and regenerates the integrity manifest of stage files,
+   * holding the file's lock so the file and its manifest are written together. The previous
+   * content is kept as a snapshot under envs/.history.
+   * @param filePath - Path to the environment file
+   * @param lines - The lines to write
+   * @param affectedVariableCount - Optional number of modified variables (for logging)
+   */
   public static async writeEnvironmentFileLines(
     filePath: string,
     lines: string[],
@@ -36,7 +52,18 @@ export default class StagesFileManager {
   ): Promise<void> {
     try {
       const content = this.linesToFileContent(lines);
-      await AsyncFileManager.writeFile(filePath, content, FileEncoding.UTF8);
+
+      await FileLockManager.withLock(filePath, async () => {
+        await SnapshotFileManager.createSnapshot(filePath, "write environment file");
+        await AsyncFileManager.writeFile(
+          filePath,
+          content,
+          "environment file",
+          FileEncoding.UTF8,
+          ENVIRONMENT_FILE_WRITE_OPTIONS,
+        );
+        await ManifestFileManager.writeManifest(filePath, this.extractEnvironmentVariables(lines));
+      });
 
       if (affectedVariableCount !== undefined) {
         logger.debug(
@@ -59,29 +86,12 @@ export default class StagesFileManager {
   }
 
   /**
-   * Counts the actual environment variable lines (excluding comments, empty lines, etc.)
+   * Counts the actual environment variables (excluding comments, empty lines, etc.)
    * @param lines - Array of file lines
-   * @returns Number of actual environment variable lines
+   * @returns Number of variable assignments with a valid key
    */
   public static countActualEnvironmentVariables(lines: string[]): number {
-    let count = 0;
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-
-      // Count only lines that contain actual environment variables
-      if (trimmedLine && !trimmedLine.startsWith("#") && trimmedLine.includes("=")) {
-        const equalIndex = trimmedLine.indexOf("=");
-        const key = trimmedLine.substring(0, equalIndex).trim();
-
-        // Validate key format before counting
-        if (key && CRYPTO_CONSTANTS.VALIDATION.ENV_VAR_KEY_PATTERN.test(key)) {
-          count++;
-        }
-      }
-    }
-
-    return count;
+    return this.parseLines(lines).entries.filter((entry) => entry.type === "variable").length;
   }
 
   /**
@@ -94,6 +104,46 @@ export default class StagesFileManager {
     return this.extractEnvironmentVariables(lines);
   }
 
+  /**
+   * Reads the encryption header of an environment file
+   * @param filePath - Path to the environment file
+   * @returns Promise resolving to the file header, or undefined if the file has none
+   */
+  public static async readFileHeader(filePath: string): Promise<EncryptionFileHeader | undefined> {
+    const lines = await this.readEnvironmentFileAsLines(filePath);
+    return this.extractFileHeader(lines);
+  }
+
+  /**
+   * Extracts the encryption header from the file lines
+   * @param lines - Array of file lines
+   * @returns The file header, or undefined if the file has none
+   */
+  public static extractFileHeader(lines: string[]): EncryptionFileHeader | undefined {
+    for (const line of lines) {
+      const fileHeader = EncryptionService.parseFileHeader(line);
+      if (fileHeader) {
+        return fileHeader;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Replaces the encryption header in the file lines, or inserts it as the first line
+   * @param existingLines - Current array of file lines
+   * @param fileHeader - The file header to write
+   * @returns Updated array of lines
+   */
+  public static setFileHeader(existingLines: string[], fileHeader: EncryptionFileHeader): string[] {
+    const headerLine = EncryptionService.formatFileHeader(fileHeader);
+    const lines = existingLines.filter(
+      (line) => !line.trim().startsWith(CRYPTO_CONSTANTS.FILE_HEADER.PREFIX),
+    );
+
+    return [headerLine, ...lines];
+  }
+
   /**
    * Updates a single environment variable in a file
    * @param filePath - Path to the environment file
@@ -110,7 +160,7 @@ export default class StagesFileManager {
   }
 
   /**
-   * Updates multiple environment variables in a file
+   * Updates multiple environment variables in a file, holding the file's lock from read to write
    * @param filePath - Path to the environment file
    * @param variables - Object containing variable names and values to update
    */
@@ -118,11 +168,13 @@ export default class StagesFileManager {
     filePath: string,
     variables: Record<string, string>,
   ): Promise<void> {
-    const lines = await this.readEnvironmentFileAsLines(filePath);
-    const updatedLines = this.updateMultipleEnvironmentVariables(lines, variables);
+    await FileLockManager.withLock(filePath, async () => {
+      const lines = await this.readEnvironmentFileAsLines(filePath);
+      const updatedLines = this.updateMultipleEnvironmentVariables(lines, variables);
 
-    // Pass the actual count of variables that were processed/encrypted
-    await this.writeEnvironmentFileLines(filePath, updatedLines, Object.keys(variables).length);
+      // Pass the actual count of variables that were processed/encrypted
+      await this.writeEnvironmentFileLines(filePath, updatedLines, Object.keys(variables).length);
+    });
   }
 
   /**
@@ -173,26 +225,27 @@ export default class StagesFileManager {
   }
 
   /**
-   * Extracts all environment variables from the file lines.
+   * Extracts all environment variables from the file lines with EnvironmentFileParser: quoted
+   * and multiline values, "export" prefixes, inline comments and "\n" and "\r" escapes.
    * @param lines - Array of file lines
    * @returns Object containing environment variables
    */
   public static extractEnvironmentVariables(lines: string[]): Record<string, string> {
     const variables: Record<string, string> = {};
-    let lineNumber = 0;
-
-    for (const line of lines) {
-      lineNumber++;
-      const parsedVariable = this.parseEnvironmentLine(line, lineNumber);
 
-      if (parsedVariable) {
-        const [key, value] = parsedVariable;
+    for (const entry of this.parseLines(lines).entries) {
+      if (entry.type === "invalid" && entry.key !== undefined) {
+        this.logInvalidKey(entry.key, entry.lineNumber);
+      }
 
-        if (Object.prototype.hasOwnProperty.call(variables, key)) {
-          logger.warn(`Duplicate environment variable '${key}' found at line ${lineNumber}`);
+      if (entry.type === "variable") {
+        if (Object.prototype.hasOwnProperty.call(variables, entry.key)) {
+          logger.warn(
+            `Duplicate environment variable '${entry.key}' found at line ${entry.lineNumber}`,
+          );
         }
 
-        variables[key] = value;
+        variables[entry.key] = entry.value;
       }
     }
 
@@ -206,30 +259,18 @@ export default class StagesFileManager {
    * @returns Tuple of [key, value] or null if line is invalid
    */
   public static parseEnvironmentLine(line: string, lineNumber?: number): [string, string] | null {
-    const trimmedLine = line.trim();
-
-    // Skip empty lines, comments, and lines without equals
-    if (!trimmedLine || trimmedLine.startsWith("#") || !trimmedLine.includes("=")) {
-      return null;
-    }
-
-    const equalIndex = trimmedLine.indexOf("=");
-    const key = trimmedLine.substring(0, equalIndex).trim();
-    const value = trimmedLine.substring(equalIndex + 1);
+    const [entry] = EnvironmentFileParser.parse(line).entries;
 
-    // Validate key format
-    if (!key || !CRYPTO_CONSTANTS.VALIDATION.ENV_VAR_KEY_PATTERN.test(key)) {
-      const lineInfo = lineNumber ? ` at line ${lineNumber}` : "";
-      logger.warn(`Invalid environment variable key format: '${key}'${lineInfo}`);
-      return null;
+    if (entry.type === "invalid" && entry.key !== undefined) {
+      this.logInvalidKey(entry.key, lineNumber);
     }
 
-    return [key, value];
+    return entry.type === "variable" ? [entry.key, entry.value] : null;
   }
 
   /**
-   * Updates multiple environment variables in the provided lines
-   * Consolidated method that handles both single and multiple variable updates
+   * Updates multiple environment variables in the provided lines. Only the values of the
+   * updated variables change; quoting, "export" prefixes, comments and spacing are kept.
    * @param existingLines - Current array of file lines
    * @param variables - Object containing variable names and values to update
    * @returns Updated array of lines
@@ -238,31 +279,18 @@ export default class StagesFileManager {
     existingLines: string[],
     variables: Record<string, string>,
   ): string[] {
-    const lines = [...existingLines];
-    const updatedKeys = new Set<string>();
-
-    // First pass: update existing variables
-    for (let i = 0; i < lines.length; i++) {
-      const trimmedLine = lines[i].trim();
-
-      for (const [envVariable, value] of Object.entries(variables)) {
-        if (trimmedLine.startsWith(`${envVariable}=`)) {
-          lines[i] = `${envVariable}=${value}`;
-          updatedKeys.add(envVariable);
-          break; // Move to next line once a match is found
-        }
-      }
-    }
+    const document = this.parseLines(existingLines);
+    const existingVariables = EnvironmentFileParser.getVariables(document);
 
-    // Second pass: append variables that weren't found
-    for (const [envVariable, value] of Object.entries(variables)) {
-      if (!updatedKeys.has(envVariable)) {
-        lines.push(`${envVariable}=${value}`);
+    for (const envVariable of Object.keys(variables)) {
+      if (!Object.prototype.hasOwnProperty.call(existingVariables, envVariable)) {
         logger.debug(`Added new environment variable: ${envVariable}`);
       }
     }
 
-    return lines;
+    return EnvironmentFileParser.format(
+      EnvironmentFileParser.setVariables(document, variables),
+    ).split("\n");
   }
 
   /**
@@ -347,4 +375,25 @@ export default class StagesFileManager {
   ): string | undefined {
     return allEnvVariables[variableName] ?? defaultValue;
   }
+
+  // Private methods
+
+  /**
+   * Parses file lines as a single document, so values spanning several lines are read whole
+   * @param lines - Array of file lines
+   * @returns The parsed document
+   */
+  private static parseLines(lines: string[]): EnvironmentFileDocument {
+    return EnvironmentFileParser.parse(this.linesToFileContent(lines));
+  }
+
+  /**
+   * Logs a warning for an assignment whose key is not a valid variable name
+   * @param key - The invalid key
+   * @param lineNumber - Optional line number for error reporting
+   */
+  private static logInvalidKey(key: string, lineNumber?: number): void {
+    const lineInfo = lineNumber ? ` at line ${lineNumber}` : "";
+    logger.warn(`Invalid environment variable key format: '${key}'${lineInfo}`);
+  }
 }
@@ -0,0 +1,405 @@
+import { CRYPTO_CONSTANTS } from "../../../cryptography/types/crypto.config";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+import type {
+  EnvironmentFileDocument,
+  EnvironmentFileEntry,
+  EnvironmentFileVariable,
+  EnvironmentValueQuote,
+} from "../types/environment.types";
+
+export default class EnvironmentFileParser {
+  // Indentation, optional "export", the key and the "=" with its surrounding spacing
+  private static readonly ASSIGNMENT_PATTERN = /^(\s*)(export\s+)?([^=\s#]*)\s*=\s*/;
+
+  private static readonly QUOTE_CHARACTERS: Record<string, EnvironmentValueQuote> = {
+    "'": "single",
+    '"': "double",
+    "`": "backtick",
+  };
+
+  // The only escapes dotenv resolves, and only in double quotes; "\\", "\"" and "\t" stay as written
+  private static readonly DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+    n: "\n",
+    r: "\r",
+  };
+
+  /**
+   * Parses environment file content into a document of variables, comments and blank lines.
+   * Supports "export KEY=...", single, double and backtick quotes, inline "#" comments and
+   * quoted values that span several lines. Values read as dotenv 17 reads them: an unquoted
+   * value ends at the first "#" and is trimmed, double quotes resolve only "\n" and "\r", and a
+   * backslash before a quote keeps it from closing the value. Unlike dotenv, keys must be valid
+   * variable names (no "." or "-"), "KEY: value" is not an assignment, and lines that are not
+   * assignments are kept as invalid entries rather than skipped.
+   * @param content - The file content
+   * @returns The parsed document
+   */
+  public static parse(content: string): EnvironmentFileDocument {
+    const lines = content.split(/\r?\n/);
+    const entries: EnvironmentFileEntry[] = [];
+
+    for (let index = 0; index < lines.length; index++) {
+      const trimmedLine = lines[index].trim();
+      const lineNumber = index + 1;
+
+      if (!trimmedLine) {
+        entries.push({ type: "blank", lineNumber, raw: lines[index] });
+      } else if (trimmedLine.startsWith("#")) {
+        entries.push({ type: "comment", lineNumber, raw: lines[index] });
+      } else {
+        const entry = this.parseAssignment(lines, index);
+        entries.push(entry);
+        index += entry.raw.split("\n").length - 1;
+      }
+    }
+
+    return { entries, lineEnding: content.includes("\r\n") ? "\r\n" : "\n" };
+  }
+
+  /**
+   * Formats a document back into file content. Entries that were not changed keep their
+   * exact source text.
+   * @param document - The document to format
+   * @returns The file content
+   */
+  public static format(document: EnvironmentFileDocument): string {
+    return document.entries
+      .map((entry) => entry.raw)
+      .join("\n")
+      .replace(/\n/g, document.lineEnding);
+  }
+
+  /**
+   * Collects the variables of a document; a key assigned more than once takes its last value
+   * @param document - The parsed document
+   * @returns The variables by name
+   */
+  public static getVariables(document: EnvironmentFileDocument): Record<string, string> {
+    const variables: Record<string, string> = {};
+
+    for (const entry of document.entries) {
+      if (entry.type === "variable") {
+        variables[entry.key] = entry.value;
+      }
+    }
+
+    return variables;
+  }
+
+  /**
+   * Returns a copy of a document with the given values set. Existing assignments keep their
+   * export keyword, quoting style, spacing and inline comment, switching to another style only
+   * when the new value cannot be written in the current one. New variables are added after
+   * the last non-blank line.
+   * @param document - The parsed document
+   * @param variables - The variable names and values to set
+   * @returns The updated document
+   */
+  public static setVariables(
+    document: EnvironmentFileDocument,
+    variables: Record<string, string>,
+  ): EnvironmentFileDocument {
+    const assignedKeys = new Set<string>();
+    const entries = document.entries.map((entry) => {
+      if (
+        entry.type !== "variable" ||
+        !Object.prototype.hasOwnProperty.call(variables, entry.key)
+      ) {
+        return entry;
+      }
+
+      assignedKeys.add(entry.key);
+      return this.withValue(entry, variables[entry.key]);
+    });
+
+    const newEntries = Object.entries(variables)
+      .filter(([key]) => !assignedKeys.has(key))
+      .map(([key, value]) => this.createVariable(key, value));
+
+    // Keep trailing blank lines (including the final newline) after the added variables
+    let insertIndex = entries.length;
+    while (insertIndex > 0 && entries[insertIndex - 1].type === "blank") {
+      insertIndex--;
+    }
+    entries.splice(insertIndex, 0, ...newEntries);
+
+    return { ...document, entries };
+  }
+
+  // Private methods
+
+  /**
+   * Parses an assignment starting at a line, reading the following lines while a quoted
+   * value is still open
+   * @param lines - All lines of the file
+   * @param index - Index of the line that starts the assignment
+   * @returns The variable, or an invalid entry if the line is not a valid assignment
+   */
+  private static parseAssignment(lines: string[], index: number): EnvironmentFileEntry {
+    const line = lines[index];
+    const lineNumber = index + 1;
+    const match = this.ASSIGNMENT_PATTERN.exec(line);
+
+    if (!match) {
+      return { type: "invalid", lineNumber, raw: line };
+    }
+
+    const [prefix, , exportKeyword, key] = match;
+    if (!key || !CRYPTO_CONSTANTS.VALIDATION.ENV_VAR_KEY_PATTERN.test(key)) {
+      return { type: "invalid", key, lineNumber, raw: line };
+    }
+
+    const quote = this.QUOTE_CHARACTERS[line.charAt(prefix.length)];
+    const quotedValue = quote
+      ? this.readQuotedValue(lines, index, prefix.length, quote)
+      : undefined;
+
+    if (quotedValue) {
+      return this.createParsedVariable({
+        key,
+        quote,
+        exported: !!exportKeyword,
+        lineNumber,
+        prefix,
+        ...quotedValue,
+      });
+    }
+
+    // Unquoted: like dotenv, the value ends at the first "#", even without whitespace before it
+    const rest = line.substring(prefix.length);
+    const commentIndex = rest.indexOf("#");
+    const value = (commentIndex === -1 ? rest : rest.substring(0, commentIndex)).trimEnd();
+
+    return this.createParsedVariable({
+      key,
+      value,
+      quote: "none",
+      exported: !!exportKeyword,
+      lineNumber,
+      prefix,
+      suffix: rest.substring(value.length),
+      raw: line,
+    });
+  }
+
+  /**
+   * Reads a quoted value, joining following lines until the closing quote
+   * @param lines - All lines of the file
+   * @param index - Index of the line that starts the assignment
+   * @param valueStart - Offset of the opening quote in that line
+   * @param quote - The quoting style
+   * @returns The unescaped value, the text after the closing quote and the source text of the
+   * assignment, or undefined if the quote is never closed or is followed by more than a comment
+   */
+  private static readQuotedValue(
+    lines: string[],
+    index: number,
+    valueStart: number,
+    quote: EnvironmentValueQuote,
+  ): { value: string; suffix: string; raw: string } | undefined {
+    let raw = lines[index];
+
+    for (let lastIndex = index; lastIndex < lines.length; lastIndex++) {
+      if (lastIndex > index) {
+        raw += `\n${lines[lastIndex]}`;
+      }
+
+      const closingIndex = this.findClosingQuote(raw, valueStart);
+      if (closingIndex === -1) {
+        continue;
+      }
+
+      // Text after the closing quote must be a comment, otherwise the value is not quoted
+      const suffix = raw.substring(closingIndex + 1);
+      if (suffix.trim() && !suffix.trim().startsWith("#")) {
+        return undefined;
+      }
+
+      const inner = raw.substring(valueStart + 1, closingIndex);
+      return {
+        value: quote === "double" ? this.unescapeDoubleQuoted(inner) : inner,
+        suffix,
+        raw,
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Finds the quote that closes a value; like dotenv, a quote preceded by a backslash does not
+   * close it and the backslash stays part of the value
+   * @param text - The text holding the value
+   * @param valueStart - Offset of the opening quote
+   * @returns Offset of the closing quote, or -1 if there is none
+   */
+  private static findClosingQuote(text: string, valueStart: number): number {
+    const quoteCharacter = text.charAt(valueStart);
+
+    for (let offset = valueStart + 1; offset < text.length; offset++) {
+      if (text[offset] === "\\" && text[offset + 1] === quoteCharacter) {
+        offset++;
+      } else if (text[offset] === quoteCharacter) {
+        return offset;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Resolves "\n" and "\r" in a double-quoted value; other sequences are kept as written
+   * @param inner - The text between the quotes
+   * @returns The value
+   */
+  private static unescapeDoubleQuoted(inner: string): string {
+    return inner.replace(
+      /\\([nr])/g,
+      (sequence, character: string) => this.DOUBLE_QUOTE_ESCAPES[character] ?? sequence,
+    );
+  }
+
+  /**
+   * Builds a variable entry from parsed source text, taking the inline comment from the text
+   * after the value
+   * @param variable - The parsed parts of the assignment
+   * @returns The variable entry
+   */
+  private static createParsedVariable(
+    variable: Omit<EnvironmentFileVariable, "type" | "comment">,
+  ): EnvironmentFileVariable {
+    const trailingText = variable.suffix.trim();
+
+    return {
+      type: "variable",
+      ...variable,
+      comment: trailingText.startsWith("#") ? trailingText : undefined,
+    };
+  }
+
+  /**
+   * Builds the entry of a variable added to a document
+   * @param key - The variable name
+   * @param value - The variable value
+   * @returns The new variable entry
+   */
+  private static createVariable(key: string, value: string): EnvironmentFileVariable {
+    return this.withValue(
+      {
+        type: "variable",
+        key,
+        value: "",
+        quote: "none",
+        exported: false,
+        lineNumber: 0,
+        prefix: `${key}=`,
+        suffix: "",
+        raw: `${key}=`,
+      },
+      value,
+    );
+  }
+
+  /**
+   * Returns a copy of a variable with a new value, rewriting only the value's source text
+   * @param variable - The variable entry
+   * @param value - The new value
+   * @returns The updated variable entry
+   */
+  private static withValue(
+    variable: EnvironmentFileVariable,
+    value: string,
+  ): EnvironmentFileVariable {
+    const quote = this.resolveQuote(variable.quote, value);
+    const keepLiteralNewlines = variable.raw.includes("\n");
+
+    return {
+      ...variable,
+      value,
+      quote,
+      raw: `${variable.prefix}${this.formatValue(value, quote, keepLiteralNewlines)}${variable.suffix}`,
+    };
+  }
+
+  /**
+   * Chooses how to quote a value, keeping the current style when the value can be written in it
+   * @param currentQuote - The quoting style of the existing assignment
+   * @param value - The value to write
+   * @returns The quoting style to use
+   * @throws Error if no quoting style can hold the value
+   */
+  private static resolveQuote(
+    currentQuote: EnvironmentValueQuote,
+    value: string,
+  ): EnvironmentValueQuote {
+    const candidates: EnvironmentValueQuote[] = [
+      currentQuote,
+      "double",
+      "single",
+      "backtick",
+      "none",
+    ];
+    const quote = candidates.find((candidate) => this.canWriteValue(value, candidate));
+
+    if (!quote) {
+      ErrorHandler.logAndThrow(
+        "resolveQuote",
+        "Value cannot be written in any quoting style that reads back unchanged",
+      );
+    }
+
+    return quote;
+  }
+
+  /**
+   * Checks whether a value reads back unchanged when written in a quoting style
+   * @param value - The value to write
+   * @param quote - The quoting style
+   * @returns True if dotenv reads the written value back as the same string
+   */
+  private static canWriteValue(value: string, quote: EnvironmentValueQuote): boolean {
+    if (quote === "none") {
+      return (
+        !/[\r\n]/.test(value) &&
+        !value.includes("#") &&
+        !/^["'`]/.test(value) &&
+        value === value.trim()
+      );
+    }
+
+    const quoteCharacter = quote === "double" ? '"' : quote === "single" ? "'" : "`";
+    // A trailing backslash would keep the closing quote from closing the value
+    const fitsQuotes = !value.includes(quoteCharacter) && !value.endsWith("\\");
+
+    // "\n" and "\r" written as text would be read back as line breaks
+    return quote === "double" ? fitsQuotes && !/\\[nr]/.test(value) : fitsQuotes;
+  }
+
+  /**
+   * Writes a value in a quoting style
+   * @param value - The value
+   * @param quote - The quoting style
+   * @param keepLiteralNewlines - Writes newlines as line breaks rather than "\n" in double quotes
+   * @returns The value's source text
+   */
+  private static formatValue(
+    value: string,
+    quote: EnvironmentValueQuote,
+    keepLiteralNewlines: boolean,
+  ): string {
+    switch (quote) {
+      case "single":
+        return `'${value}'`;
+      case "backtick":
+        return `\`${value}\``;
+      case "double": {
+        const escaped = value
+          .replace(/\r/g, "\\r")
+          .replace(/\n/g, keepLiteralNewlines ? "\n" : "\\n");
+        return `"${escaped}"`;
+      }
+      default:
+        return value;
+    }
+  }
+}
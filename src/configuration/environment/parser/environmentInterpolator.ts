@@ -0,0 +1,283 @@
+import EncryptionService from "../../../cryptography/service/encryptionService";
+import { CRYPTO_CONSTANTS } from "../../../cryptography/types/crypto.config";
+import type { InterpolationReportEntry, InterpolationResult } from "../types/environment.types";
+import DataSanitizer from "../../../utils/sanitization/dataSanitizer";
+import { MASK_PLACEHOLDER } from "../../../utils/sanitization/internals/sanitization.config";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+
+interface InterpolationContext {
+  variables: Record<string, string>;
+  externalValues: Record<string, string | undefined>;
+  literalKeys: ReadonlySet<string>;
+  resolved: Map<string, string>;
+  report: InterpolationReportEntry[];
+}
+
+export default class EnvironmentInterpolator {
+  private static readonly REFERENCE_START = "${";
+  private static readonly ESCAPED_REFERENCE_START = "\\${";
+  private static readonly DEFAULT_SEPARATOR = ":-";
+
+  /**
+   * Expands ${VAR} and ${VAR:-default} references in the values of loaded variables. References
+   * resolve against the other loaded variables first, then the external values; the default
+   * applies when the variable is unset or empty, and \${ writes a literal ${. A reference to a
+   * value that is still encrypted is left as written, so it can be expanded after decryption.
+   * Literal variables, such as decrypted secrets, keep their value as written but can still be
+   * referenced by other variables.
+   * @param variables - The loaded variables
+   * @param externalValues - Values for references that are not loaded variables (e.g. process.env)
+   * @param literalKeys - Variables whose own values are never expanded
+   * @returns The expanded values of the variables that contained references, with a report
+   * @throws Error naming the chain of variables if references form a cycle
+   */
+  public static interpolate(
+    variables: Record<string, string>,
+    externalValues: Record<string, string | undefined> = {},
+    literalKeys: ReadonlySet<string> = new Set(),
+  ): InterpolationResult {
+    const context: InterpolationContext = {
+      variables,
+      externalValues,
+      literalKeys,
+      resolved: new Map(),
+      report: [],
+    };
+
+    for (const key of Object.keys(variables)) {
+      this.resolveVariable(context, key, []);
+    }
+
+    return {
+      values: Object.fromEntries(context.report.map((entry) => [entry.key, entry.value])),
+      report: context.report,
+    };
+  }
+
+  /**
+   * Checks whether a value contains a reference to expand
+   * @param value - The value to check
+   * @returns True if the value contains "${"
+   */
+  public static hasReferences(value: string | undefined): boolean {
+    return !!value?.includes(this.REFERENCE_START);
+  }
+
+  /**
+   * Extends a set of masked variables with the variables that reference them, directly or
+   * through other variables
+   * @param report - The interpolation report
+   * @param maskedKeys - Variables whose values must never be shown, e.g. decrypted variables
+   * @returns The masked variables including those whose expanded value contains a masked value
+   */
+  public static getMaskedKeys(
+    report: InterpolationReportEntry[],
+    maskedKeys: ReadonlySet<string>,
+  ): Set<string> {
+    // Entries are reported after the variables they reference, so masking carries through chains
+    const masked = new Set(maskedKeys);
+
+    for (const { key, references } of report) {
+      if (references.some((name) => masked.has(name))) {
+        masked.add(key);
+      }
+    }
+
+    return masked;
+  }
+
+  /**
+   * Formats an interpolation report for the debug log. Values of masked variables, and of
+   * variables that reference them directly or through other variables, are replaced by the
+   * mask; the others pass through DataSanitizer.
+   * @param report - The interpolation report
+   * @param maskedKeys - Variables whose values must never be shown, e.g. decrypted variables
+   * @returns One line per expanded variable
+   */
+  public static formatReport(
+    report: InterpolationReportEntry[],
+    maskedKeys: ReadonlySet<string>,
+  ): string {
+    const masked = this.getMaskedKeys(report, maskedKeys);
+
+    return report
+      .map(({ key, references, unresolved, deferred, value }) => {
+        const displayValue = masked.has(key)
+          ? MASK_PLACEHOLDER
+          : DataSanitizer.sanitize({ [key]: value })[key];
+
+        const details = references.length > 0 ? [`from ${references.join(", ")}`] : [];
+        if (unresolved.length > 0) {
+          details.push(`unresolved: ${unresolved.join(", ")}`);
+        }
+        if (deferred.length > 0) {
+          details.push(`still encrypted: ${deferred.join(", ")}`);
+        }
+
+        return details.length > 0
+          ? `${key} = ${displayValue} (${details.join("; ")})`
+          : `${key} = ${displayValue}`;
+      })
+      .join("\n");
+  }
+
+  // Private methods
+
+  /**
+   * Resolves the value of a loaded variable, expanding its references once
+   * @param context - The state of the current interpolation
+   * @param key - The variable name
+   * @param chain - The variables being resolved that led to this one, for cycle detection
+   * @returns The expanded value
+   */
+  private static resolveVariable(
+    context: InterpolationContext,
+    key: string,
+    chain: string[],
+  ): string {
+    const resolvedValue = context.resolved.get(key);
+    if (resolvedValue !== undefined) {
+      return resolvedValue;
+    }
+
+    if (chain.includes(key)) {
+      const cycle = [...chain.slice(chain.indexOf(key)), key].join(" → ");
+      ErrorHandler.logAndThrow(
+        "EnvironmentInterpolator",
+        `Circular reference between environment variables: ${cycle}`,
+      );
+    }
+
+    const value = context.variables[key];
+    if (!this.hasReferences(value) || context.literalKeys.has(key)) {
+      context.resolved.set(key, value);
+      return value;
+    }
+
+    const entry: InterpolationReportEntry = {
+      key,
+      references: [],
+      unresolved: [],
+      deferred: [],
+      value: "",
+    };
+    entry.value = this.expand(context, value, [...chain, key], entry);
+
+    context.resolved.set(key, entry.value);
+    context.report.push(entry);
+    return entry.value;
+  }
+
+  /**
+   * Expands the references in a text
+   * @param context - The state of the current interpolation
+   * @param text - The text to expand
+   * @param chain - The variables being resolved, for cycle detection
+   * @param entry - The report entry that records the references
+   * @returns The expanded text
+   */
+  private static expand(
+    context: InterpolationContext,
+    text: string,
+    chain: string[],
+    entry: InterpolationReportEntry,
+  ): string {
+    let expanded = "";
+    let offset = 0;
+
+    while (offset < text.length) {
+      if (text.startsWith(this.ESCAPED_REFERENCE_START, offset)) {
+        expanded += this.REFERENCE_START;
+        offset += this.ESCAPED_REFERENCE_START.length;
+        continue;
+      }
+
+      if (!text.startsWith(this.REFERENCE_START, offset)) {
+        expanded += text[offset++];
+        continue;
+      }
+
+      const closingIndex = this.findClosingBrace(text, offset + this.REFERENCE_START.length);
+      if (closingIndex === -1) {
+        return expanded + text.substring(offset);
+      }
+
+      const reference = text.substring(offset, closingIndex + 1);
+      expanded += this.expandReference(context, reference, chain, entry);
+      offset = closingIndex + 1;
+    }
+
+    return expanded;
+  }
+
+  /**
+   * Expands a single ${VAR} or ${VAR:-default} reference
+   * @param context - The state of the current interpolation
+   * @param reference - The reference, including "${" and "}"
+   * @param chain - The variables being resolved, for cycle detection
+   * @param entry - The report entry that records the reference
+   * @returns The replacement text
+   */
+  private static expandReference(
+    context: InterpolationContext,
+    reference: string,
+    chain: string[],
+    entry: InterpolationReportEntry,
+  ): string {
+    const body = reference.slice(this.REFERENCE_START.length, -1);
+    const separatorIndex = body.indexOf(this.DEFAULT_SEPARATOR);
+    const name = separatorIndex === -1 ? body : body.substring(0, separatorIndex);
+    const defaultValue =
+      separatorIndex === -1
+        ? undefined
+        : body.substring(separatorIndex + this.DEFAULT_SEPARATOR.length);
+
+    if (!CRYPTO_CONSTANTS.VALIDATION.ENV_VAR_KEY_PATTERN.test(name)) {
+      return reference;
+    }
+
+    if (!entry.references.includes(name)) {
+      entry.references.push(name);
+    }
+
+    const value = Object.prototype.hasOwnProperty.call(context.variables, name)
+      ? this.resolveVariable(context, name, chain)
+      : context.externalValues[name];
+
+    if (value && EncryptionService.isEncrypted(value)) {
+      entry.deferred.push(name);
+      return reference;
+    }
+
+    if (!value && defaultValue !== undefined) {
+      return this.expand(context, defaultValue, chain, entry);
+    }
+
+    if (value === undefined) {
+      entry.unresolved.push(name);
+      return "";
+    }
+
+    return value;
+  }
+
+  /**
+   * Finds the brace that closes a reference, allowing references nested in its default
+   * @param text - The text holding the reference
+   * @param start - Offset just after the opening "${"
+   * @returns Offset of the closing brace, or -1 if the reference is not closed
+   */
+  private static findClosingBrace(text: string, start: number): number {
+    let depth = 1;
+
+    for (let offset = start; offset < text.length; offset++) {
+      if (text[offset] === "{") {
+        depth++;
+      } else if (text[offset] === "}" && --depth === 0) {
+        return offset;
+      }
+    }
+
+    return -1;
+  }
+}
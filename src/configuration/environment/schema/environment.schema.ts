@@ -0,0 +1,15 @@
+import type { EnvironmentSchema } from "../types/environment.types";
+
+/**
+ * Variables the loaded environment must provide, validated by global setup before any test
+ * runs. Each entry declares the variable's type, whether it is required (default: true),
+ * whether the stage file must store it encrypted, and the stages it applies to (default: all).
+ *
+ * @example
+ * PORTAL_BASE_URL: { type: "url" },
+ * PORTAL_PASSWORD: { type: "string", encrypted: true },
+ * RETRY_COUNT: { type: "int", required: false },
+ * BROWSER: { type: "enum", values: ["chromium", "firefox", "webkit"] },
+ * ADMIN_EMAIL: { type: "email", stages: ["uat", "preprod", "prod"] },
+ */
+export const ENVIRONMENT_SCHEMA: EnvironmentSchema = {};
@@ -0,0 +1,184 @@
+import EncryptionService from "../../../cryptography/service/encryptionService";
+import type { EnvironmentStage } from "../constants/environment.constants";
+import type {
+  EnvironmentSchema,
+  EnvironmentSchemaViolation,
+  EnvironmentVariableSchema,
+  EnvironmentVariableType,
+} from "../types/environment.types";
+import DataSanitizer from "../../../utils/sanitization/dataSanitizer";
+import { MASK_PLACEHOLDER } from "../../../utils/sanitization/internals/sanitization.config";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+
+export default class EnvironmentSchemaValidator {
+  private static readonly BOOLEAN_VALUES = ["true", "false"];
+  private static readonly EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  private static readonly INT_PATTERN = /^[-+]?\d+$/;
+
+  /**
+   * Checks the loaded environment of a stage against a schema
+   * @param stage - The environment stage; entries limited to other stages are skipped
+   * @param values - The loaded values by variable name
+   * @param encryptedVariables - Variables whose value was stored encrypted in the stage file
+   * @param schema - The schema to check against
+   * @returns The violations found, with values masked for reporting
+   */
+  public static validate(
+    stage: EnvironmentStage,
+    values: Record<string, string | undefined>,
+    encryptedVariables: ReadonlySet<string>,
+    schema: EnvironmentSchema,
+  ): EnvironmentSchemaViolation[] {
+    const violations: EnvironmentSchemaViolation[] = [];
+
+    for (const [variable, entry] of Object.entries(schema)) {
+      if (entry.stages && !entry.stages.includes(stage)) {
+        continue;
+      }
+
+      const isEncrypted = encryptedVariables.has(variable);
+      const message = this.checkVariable(entry, values[variable], isEncrypted);
+      if (message) {
+        violations.push({
+          variable,
+          message,
+          value: this.maskValue(variable, values[variable], entry.encrypted || isEncrypted),
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Checks the loaded environment of a stage against a schema and fails with a single report
+   * listing every violation
+   * @param stage - The environment stage
+   * @param values - The loaded values by variable name
+   * @param encryptedVariables - Variables whose value was stored encrypted in the stage file
+   * @param schema - The schema to check against
+   * @throws Error listing every violation
+   */
+  public static assertValid(
+    stage: EnvironmentStage,
+    values: Record<string, string | undefined>,
+    encryptedVariables: ReadonlySet<string>,
+    schema: EnvironmentSchema,
+  ): void {
+    const violations = this.validate(stage, values, encryptedVariables, schema);
+
+    if (violations.length > 0) {
+      ErrorHandler.logAndThrow(
+        "EnvironmentSchemaValidator",
+        `Environment for stage "${stage}" does not match the schema (${violations.length} problems):\n` +
+          this.formatReport(violations),
+      );
+    }
+  }
+
+  /**
+   * Formats violations as one line per variable
+   * @param violations - The violations to report
+   * @returns The report
+   */
+  public static formatReport(violations: EnvironmentSchemaViolation[]): string {
+    return violations
+      .map(({ variable, message, value }) =>
+        value === undefined
+          ? `  - ${variable}: ${message}`
+          : `  - ${variable}: ${message} (value: ${value})`,
+      )
+      .join("\n");
+  }
+
+  // Private methods
+
+  /**
+   * Checks a single variable against its schema entry
+   * @param entry - The schema entry
+   * @param value - The loaded value
+   * @param storedEncrypted - Whether the stage file stored the value encrypted
+   * @returns The problem found, or undefined if the variable is valid
+   */
+  private static checkVariable(
+    entry: EnvironmentVariableSchema,
+    value: string | undefined,
+    storedEncrypted: boolean,
+  ): string | undefined {
+    const { required = true, encrypted = false } = entry;
+
+    if (value === undefined || value === "") {
+      return required ? "is required but not set" : undefined;
+    }
+
+    if (encrypted && !storedEncrypted) {
+      return "must be stored encrypted but is plain text";
+    }
+
+    // Values that were not decrypted cannot be type-checked
+    if (EncryptionService.isEncrypted(value)) {
+      return undefined;
+    }
+
+    return this.checkType(entry, value);
+  }
+
+  /**
+   * Checks that a value matches the declared type
+   * @param entry - The schema entry
+   * @param value - The plain-text value
+   * @returns The problem found, or undefined if the value matches
+   */
+  private static checkType(entry: EnvironmentVariableSchema, value: string): string | undefined {
+    const checks: Record<EnvironmentVariableType, () => boolean> = {
+      string: () => true,
+      url: () => this.isUrl(value),
+      int: () => this.INT_PATTERN.test(value),
+      boolean: () => this.BOOLEAN_VALUES.includes(value.toLowerCase()),
+      enum: () => !!entry.values?.includes(value),
+      email: () => this.EMAIL_PATTERN.test(value),
+    };
+
+    if (checks[entry.type]()) {
+      return undefined;
+    }
+
+    return entry.type === "enum"
+      ? `must be one of: ${(entry.values ?? []).join(", ")}`
+      : `must be a valid ${entry.type}`;
+  }
+
+  /**
+   * Checks whether a value is an absolute URL
+   * @param value - The value to check
+   * @returns True if the value parses as a URL
+   */
+  private static isUrl(value: string): boolean {
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Masks a value for the report. Values declared as encrypted or stored encrypted are always
+   * masked; the others pass through DataSanitizer, which masks sensitive names and secret-like
+   * values.
+   * @param variable - The variable name
+   * @param value - The loaded value
+   * @param isSecret - Whether the value is declared or stored encrypted
+   * @returns The value to report, or undefined if the variable is not set
+   */
+  private static maskValue(
+    variable: string,
+    value: string | undefined,
+    isSecret: boolean | undefined,
+  ): string | undefined {
+    if (!value) {
+      return undefined;
+    }
+    return isSecret ? MASK_PLACEHOLDER : DataSanitizer.sanitize({ [variable]: value })[variable];
+  }
+}
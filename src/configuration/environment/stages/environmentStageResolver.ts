@@ -0,0 +1,164 @@
+import { DEFAULT_STAGE_SETTINGS, ENVIRONMENT_STAGE_CONFIG } from "./stages.config";
+import type { EnvironmentStage } from "../constants/environment.constants";
+import type {
+  EnvironmentStageDefinition,
+  EnvironmentStageSettings,
+} from "../types/environment.types";
+
+/**
+ * Reads the stage config. The logger takes its console level from here while it is being
+ * created, so configuration errors are thrown as plain errors rather than through ErrorHandler.
+ */
+export default class EnvironmentStageResolver {
+  private static readonly STAGE_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+  // Typing the config here checks at compile time that every "extends" names a configured stage
+  private static readonly stageConfig: Readonly<
+    Record<EnvironmentStage, EnvironmentStageDefinition<EnvironmentStage>>
+  > = ENVIRONMENT_STAGE_CONFIG;
+
+  private static stageNames?: Map<string, EnvironmentStage>;
+  private static readonly settingsCache = new Map<EnvironmentStage, EnvironmentStageSettings>();
+
+  /**
+   * Lists the configured stages in config order
+   * @returns The stage names
+   */
+  public static getStages(): EnvironmentStage[] {
+    return Object.keys(this.stageConfig) as EnvironmentStage[];
+  }
+
+  /**
+   * Checks whether a value is the name of a configured stage; aliases do not count
+   * @param value - The value to check
+   * @returns True if the value is a stage name
+   */
+  public static isStage(value: unknown): value is EnvironmentStage {
+    return (
+      typeof value === "string" && Object.prototype.hasOwnProperty.call(this.stageConfig, value)
+    );
+  }
+
+  /**
+   * Resolves a stage from its name or one of its aliases, ignoring case and surrounding spaces
+   * @param value - The name or alias, e.g. from ENV
+   * @returns The stage, or undefined if no stage has that name or alias
+   * @throws Error if the stage config is invalid
+   */
+  public static resolveStage(value: string | undefined): EnvironmentStage | undefined {
+    if (!value) {
+      return undefined;
+    }
+    return this.getStageNames().get(value.trim().toLowerCase());
+  }
+
+  /**
+   * Lists a stage followed by the stages it extends, nearest first
+   * @param stage - The environment stage
+   * @returns The stage and its ancestors
+   * @throws Error if the "extends" chain forms a cycle
+   */
+  public static getLineage(stage: EnvironmentStage): EnvironmentStage[] {
+    const lineage: EnvironmentStage[] = [];
+
+    for (
+      let current: EnvironmentStage | undefined = stage;
+      current;
+      current = this.stageConfig[current].extends
+    ) {
+      if (lineage.includes(current)) {
+        throw new Error(
+          `Stage config: "extends" forms a cycle: ${[...lineage, current].join(" → ")}`,
+        );
+      }
+      lineage.push(current);
+    }
+
+    return lineage;
+  }
+
+  /**
+   * Checks whether a stage is another stage or extends it, directly or through other stages
+   * @param stage - The stage to check
+   * @param ancestor - The stage it may extend
+   * @returns True if the stage is or extends the ancestor
+   */
+  public static extendsStage(stage: EnvironmentStage, ancestor: EnvironmentStage): boolean {
+    return this.getLineage(stage).includes(ancestor);
+  }
+
+  /**
+   * Resolves the settings of a stage: its own, then those of the stages it extends, then the
+   * defaults
+   * @param stage - The environment stage
+   * @returns The settings of the stage
+   * @throws Error if the "extends" chain forms a cycle
+   */
+  public static getSettings(stage: EnvironmentStage): EnvironmentStageSettings {
+    const cachedSettings = this.settingsCache.get(stage);
+    if (cachedSettings) {
+      return cachedSettings;
+    }
+
+    const definitions = this.getLineage(stage).map((current) => this.stageConfig[current]);
+    const settings: EnvironmentStageSettings = {
+      logLevel:
+        definitions.find((definition) => definition.logLevel)?.logLevel ??
+        DEFAULT_STAGE_SETTINGS.logLevel,
+      keyRotation: {
+        ...(definitions.find((definition) => definition.keyRotation)?.keyRotation ??
+          DEFAULT_STAGE_SETTINGS.keyRotation),
+      },
+      argon2Profile:
+        definitions.find((definition) => definition.argon2Profile)?.argon2Profile ??
+        DEFAULT_STAGE_SETTINGS.argon2Profile,
+    };
+
+    this.settingsCache.set(stage, settings);
+    return settings;
+  }
+
+  // Private methods
+
+  /**
+   * Builds the lookup of stage names and aliases, validating the config on first use
+   * @returns The stage for each lower-case name and alias
+   * @throws Error if a stage name is not usable in file and variable names, or an alias is
+   * claimed twice
+   */
+  private static getStageNames(): Map<string, EnvironmentStage> {
+    if (this.stageNames) {
+      return this.stageNames;
+    }
+
+    const stageNames = new Map<string, EnvironmentStage>();
+
+    for (const stage of this.getStages()) {
+      if (!this.STAGE_NAME_PATTERN.test(stage)) {
+        throw new Error(
+          `Stage config: "${stage}" must start with a lower-case letter and contain only ` +
+            `lower-case letters, digits and hyphens`,
+        );
+      }
+      this.getLineage(stage);
+      stageNames.set(stage, stage);
+    }
+
+    for (const stage of this.getStages()) {
+      for (const alias of this.stageConfig[stage].aliases ?? []) {
+        const name = alias.trim().toLowerCase();
+        const claimedBy = stageNames.get(name);
+
+        if (claimedBy) {
+          throw new Error(
+            `Stage config: alias "${alias}" of "${stage}" is already used by "${claimedBy}"`,
+          );
+        }
+        stageNames.set(name, stage);
+      }
+    }
+
+    this.stageNames = stageNames;
+    return stageNames;
+  }
+}
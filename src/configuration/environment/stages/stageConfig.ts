@@ -0,0 +1,162 @@
+import { inspect } from "util";
+import EncryptionService from "../../../cryptography/service/encryptionService";
+import type { EnvironmentStage } from "../constants/environment.constants";
+import type {
+  EnvironmentVariableProvenance,
+  LoadedEnvironmentFile,
+} from "../types/environment.types";
+import DataSanitizer from "../../../utils/sanitization/dataSanitizer";
+import { MASK_PLACEHOLDER } from "../../../utils/sanitization/internals/sanitization.config";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+
+export default class StageConfig {
+  private readonly values: Readonly<Record<string, string>>;
+  private readonly secretVariables: ReadonlySet<string>;
+  private readonly provenance: ReadonlyMap<string, EnvironmentVariableProvenance>;
+  private readonly loadedFiles: readonly LoadedEnvironmentFile[];
+
+  /**
+   * Creates an immutable snapshot of the configuration of one stage. Variables that were
+   * stored encrypted are treated as secrets, whether or not they have been decrypted.
+   * @param stage - The environment stage
+   * @param values - The loaded values by variable name
+   * @param loadedFiles - The files the values were loaded from
+   * @param provenance - The source that supplied each variable
+   */
+  public constructor(
+    public readonly stage: EnvironmentStage,
+    values: Record<string, string>,
+    loadedFiles: readonly LoadedEnvironmentFile[],
+    provenance: readonly EnvironmentVariableProvenance[],
+  ) {
+    this.values = Object.freeze({ ...values });
+    this.secretVariables = new Set([
+      ...loadedFiles.flatMap((file) => file.decryptedVariables),
+      ...Object.keys(values).filter((key) => EncryptionService.isEncrypted(values[key])),
+    ]);
+    this.provenance = new Map(provenance.map((entry) => [entry.key, entry]));
+    this.loadedFiles = loadedFiles.map((file) => ({
+      ...file,
+      variables: [...file.variables],
+      decryptedVariables: [...file.decryptedVariables],
+    }));
+    Object.freeze(this);
+  }
+
+  /**
+   * Gets the value of a variable
+   * @param key - The variable name
+   * @returns The value, or undefined if the stage does not set the variable
+   */
+  public get(key: string): string | undefined {
+    return Object.prototype.hasOwnProperty.call(this.values, key) ? this.values[key] : undefined;
+  }
+
+  /**
+   * Gets the value of a variable that must be set
+   * @param key - The variable name
+   * @returns The value
+   * @throws Error if the variable is not set or empty
+   */
+  public getRequired(key: string): string {
+    const value = this.get(key);
+
+    if (!value) {
+      ErrorHandler.logAndThrow(
+        "StageConfig",
+        `Environment variable "${key}" is required for stage "${this.stage}" but not set`,
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Gets the decrypted value of a variable that the stage file stores encrypted
+   * @param key - The variable name
+   * @returns The plain-text value
+   * @throws Error if the variable is not set, is stored as plain text, or was not decrypted
+   */
+  public getSecret(key: string): string {
+    const value = this.getRequired(key);
+
+    if (!this.secretVariables.has(key)) {
+      ErrorHandler.logAndThrow(
+        "StageConfig",
+        `Environment variable "${key}" of stage "${this.stage}" is not stored encrypted — use get() for plain values`,
+      );
+    }
+
+    if (EncryptionService.isEncrypted(value)) {
+      ErrorHandler.logAndThrow(
+        "StageConfig",
+        `Environment variable "${key}" of stage "${this.stage}" is still encrypted — load the stage with decryptValues`,
+      );
+    }
+
+    return value;
+  }
+
+  public has(key: string): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  public isSecret(key: string): boolean {
+    return this.secretVariables.has(key);
+  }
+
+  public keys(): string[] {
+    return Object.keys(this.values);
+  }
+
+  /**
+   * Reports which source supplied the value of a variable
+   * @param key - The variable name
+   * @returns The supplying source and the sources it overrode, or undefined if the stage does not
+   * set the variable
+   */
+  public getProvenance(key: string): EnvironmentVariableProvenance | undefined {
+    const provenance = this.provenance.get(key);
+    return provenance && { ...provenance, overridden: [...provenance.overridden] };
+  }
+
+  public getLoadedFiles(): readonly LoadedEnvironmentFile[] {
+    return this.loadedFiles.map((file) => ({
+      ...file,
+      variables: [...file.variables],
+      decryptedVariables: [...file.decryptedVariables],
+    }));
+  }
+
+  /**
+   * Copies the values, including the plain text of secrets
+   * @returns The values by variable name
+   */
+  public toObject(): Record<string, string> {
+    return { ...this.values };
+  }
+
+  /**
+   * Serializes the values with secrets and sensitive-looking values masked, so logging or
+   * attaching the config never exposes them
+   */
+  public toJSON(): Record<string, string> {
+    const sanitizedValues = DataSanitizer.sanitize(this.toObject());
+
+    for (const key of this.secretVariables) {
+      if (key in sanitizedValues) {
+        sanitizedValues[key] = MASK_PLACEHOLDER;
+      }
+    }
+
+    return sanitizedValues;
+  }
+
+  public toString(): string {
+    return `StageConfig(${this.stage}) ${JSON.stringify(this.toJSON())}`;
+  }
+
+  public [inspect.custom](): string {
+    return this.toString();
+  }
+}
@@ -0,0 +1,34 @@
+import { test as base } from "@playwright/test";
+import EnvironmentDetector from "../../detector/environmentDetector";
+import EnvironmentFileManager from "../manager/filePath/EnvironmentFileManager";
+import type { StageTestOptions, StageWorkerFixtures } from "../types/environment.types";
+
+/**
+ * Playwright test with the stage of the running project and its decrypted configuration.
+ * Projects built by StageProjectFactory set the stage; other projects use the current stage.
+ * The configuration comes from global setup when it shared the stage, otherwise it is loaded
+ * from the environment files.
+ *
+ * @example
+ * test("signs in", async ({ page, stageConfig }) => {
+ *   await page.goto(stageConfig.getRequired("BASE_URL"));
+ *   await page.getByLabel("Password").fill(stageConfig.getSecret("PASSWORD"));
+ * });
+ */
+export const test = base.extend<object, StageTestOptions & StageWorkerFixtures>({
+  stage: [EnvironmentDetector.getCurrentEnvironmentStage(), { scope: "worker", option: true }],
+
+  stageConfig: [
+    async ({ stage }, use) => {
+      // Global setup shares every selected stage; load the files only for stages it did not
+      const environmentFileManager = EnvironmentFileManager.getInstance();
+      const stageConfig =
+        (await environmentFileManager.loadSharedStageConfig(stage)) ??
+        (await environmentFileManager.loadStageConfig(stage, { decryptValues: true }));
+      await use(stageConfig);
+    },
+    { scope: "worker" },
+  ],
+});
+
+export { expect } from "@playwright/test";
@@ -0,0 +1,82 @@
+import type { Project } from "@playwright/test";
+import EnvironmentDetector from "../../detector/environmentDetector";
+import EnvironmentStageResolver from "./environmentStageResolver";
+import type { EnvironmentStage } from "../constants/environment.constants";
+import type { StageTestOptions } from "../types/environment.types";
+import ErrorHandler from "../../../utils/errorHandling/errorHandler";
+
+export default class StageProjectFactory {
+  /**
+   * Builds one Playwright project per stage for each base project, with the stage set in its
+   * "use" options for the stageConfig fixture. With a single stage the projects keep their
+   * names, so commands such as --project=chromium keep working; with several stages they are
+   * named "<stage>-<project>", and dependencies and teardown projects are renamed so they stay
+   * within the same stage.
+   * @param baseProjects - The projects to run against every stage, e.g. one per browser
+   * @param stages - The stages to run (default: ENV_STAGES, or the current stage)
+   * @returns The projects for playwright.config.ts
+   */
+  public static createProjects(
+    baseProjects: Project[],
+    stages: EnvironmentStage[] = this.getSelectedStages(),
+  ): Project<object, StageTestOptions>[] {
+    if (stages.length === 1) {
+      return baseProjects.map((project) => ({
+        ...project,
+        use: { ...project.use, stage: stages[0] },
+      }));
+    }
+
+    return stages.flatMap((stage) =>
+      baseProjects.map((project) => ({
+        ...project,
+        name: this.getProjectName(stage, project.name),
+        dependencies: project.dependencies?.map((name) => this.getProjectName(stage, name)),
+        teardown: project.teardown && this.getProjectName(stage, project.teardown),
+        use: { ...project.use, stage },
+      })),
+    );
+  }
+
+  /**
+   * Resolves the stages to run from ENV_STAGES, a comma-separated list of stage names or
+   * aliases such as "qa,uat"
+   * @returns The selected stages, or the current stage if ENV_STAGES is not set
+   * @throws Error if ENV_STAGES names a stage that is not configured
+   */
+  public static getSelectedStages(): EnvironmentStage[] {
+    const names = (process.env.ENV_STAGES || "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean);
+
+    if (names.length === 0) {
+      return [EnvironmentDetector.getCurrentEnvironmentStage()];
+    }
+
+    const stages = names.map((name) => {
+      const stage = EnvironmentStageResolver.resolveStage(name);
+      if (!stage) {
+        ErrorHandler.logAndThrow(
+          "getSelectedStages",
+          `Unknown stage "${name}" in ENV_STAGES. Valid stages are: ${EnvironmentStageResolver.getStages().join(", ")}`,
+        );
+      }
+      return stage;
+    });
+
+    return [...new Set(stages)];
+  }
+
+  // Private methods
+
+  /**
+   * Names the copy of a project for a stage
+   * @param stage - The environment stage
+   * @param projectName - The name of the base project
+   * @returns The stage project name
+   */
+  private static getProjectName(stage: EnvironmentStage, projectName?: string): string {
+    return projectName ? `${stage}-${projectName}` : stage;
+  }
+}
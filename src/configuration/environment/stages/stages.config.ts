@@ -0,0 +1,44 @@
+import type {
+  EnvironmentStageDefinition,
+  EnvironmentStageSettings,
+} from "../types/environment.types";
+
+/**
+ * Environment stages of the project. Each stage reads envs/.env.<stage> and is encrypted with
+ * <STAGE>_SECRET_KEY; ENV (or NODE_ENV) selects it by name or by one of its aliases. A stage
+ * that extends another takes every setting it does not declare from that stage, and settings
+ * no stage in the chain declares fall back to DEFAULT_STAGE_SETTINGS. Only settings are
+ * inherited: every stage loads its own environment files and uses its own key, so variables a
+ * stage shares with the one it extends belong in envs/.env or in both stage files.
+ *
+ * @example
+ * sit: { aliases: ["integration"], extends: "qa" },
+ * perf: { extends: "qa", logLevel: "info" },
+ * "feature-login": { extends: "qa" },
+ */
+export const ENVIRONMENT_STAGE_CONFIG = {
+  dev: { argon2Profile: "interactive" },
+  qa: {},
+  uat: { logLevel: "info" },
+  preprod: {
+    aliases: ["staging"],
+    logLevel: "warn",
+    keyRotation: { maxAgeDays: 90, strict: true },
+    argon2Profile: "sensitive",
+  },
+  prod: { extends: "preprod", logLevel: "error" },
+} as const satisfies Record<string, EnvironmentStageDefinition>;
+
+/**
+ * Stage used when ENV and NODE_ENV name no configured stage
+ */
+export const DEFAULT_ENVIRONMENT_STAGE = "dev" satisfies keyof typeof ENVIRONMENT_STAGE_CONFIG;
+
+/**
+ * Settings of stages that neither declare nor inherit them
+ */
+export const DEFAULT_STAGE_SETTINGS: EnvironmentStageSettings = {
+  logLevel: "debug",
+  keyRotation: { maxAgeDays: 90, strict: false },
+  argon2Profile: "moderate",
+};
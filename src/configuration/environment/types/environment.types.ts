@@ -0,0 +1,355 @@
+import type { EnvironmentStage } from "../constants/environment.constants";
+import type { Argon2ProfileName } from "../../../cryptography/types/crypto.types";
+import type { LogLevel } from "../../../utils/logger/internal/logger.config";
+import type StageConfig from "../stages/stageConfig";
+
+/**
+ * Kind of environment file being loaded: the secret key file, the shared envs/.env, the stage
+ * file envs/.env.<stage>, or its git-ignored envs/.env.<stage>.local overrides
+ */
+export type EnvironmentFileType = "secret" | "base" | "stage" | "local";
+
+/**
+ * Kind of source a loaded variable can take its value from
+ */
+export type EnvironmentVariableSourceType = EnvironmentFileType | "process";
+
+/**
+ * Options controlling how environment files are loaded
+ */
+export interface EnvironmentLoadOptions {
+  /**
+   * Decrypts every encrypted value with the current stage's secret key after loading
+   */
+  decryptValues?: boolean;
+
+  /**
+   * How to treat a stage file whose integrity manifest is missing or does not match
+   * (default: ENV_INTEGRITY_MODE, or "warn")
+   */
+  integrityMode?: IntegrityCheckMode;
+
+  /**
+   * Keeps variables already set in the process environment instead of overriding them with
+   * values from the files (default: ENV_PREFER_PROCESS_ENV, or false)
+   */
+  preferProcessEnv?: boolean;
+
+  /**
+   * Writes the loaded variables into process.env, where child processes inherit them
+   * (default: false; read them from the StageConfig instead)
+   */
+  writeToProcessEnv?: boolean;
+}
+
+/**
+ * Record of an environment file that was loaded
+ */
+export interface LoadedEnvironmentFile {
+  fileName: string;
+  fileType: EnvironmentFileType;
+  variables: string[];
+  decryptedVariables: string[];
+}
+
+/**
+ * Source that supplied the value of a loaded variable, and the sources it took precedence over
+ */
+export interface EnvironmentVariableProvenance {
+  key: string;
+
+  /**
+   * File name that supplied the value, or "process.env"
+   */
+  source: string;
+  sourceType: EnvironmentVariableSourceType;
+
+  /**
+   * Other sources that set the variable, lowest precedence first
+   */
+  overridden: string[];
+}
+
+/**
+ * Decrypted configuration handed from global setup to the worker processes
+ */
+export interface SharedEnvironment {
+  stage: EnvironmentStage;
+  variables: Record<string, string>;
+  loadedFiles: LoadedEnvironmentFile[];
+}
+
+/**
+ * Creation and rotation timestamps of a secret key, stored in the key metadata file
+ */
+export interface KeyMetadata {
+  createdAt: string;
+  rotatedAt?: string;
+}
+
+/**
+ * Rotation policy for the secret key of a stage
+ */
+export interface KeyRotationPolicy {
+  maxAgeDays: number;
+  strict: boolean;
+}
+
+/**
+ * Settings that apply to a stage once its "extends" chain is resolved
+ */
+export interface EnvironmentStageSettings {
+  /**
+   * Lowest level written to the console
+   */
+  logLevel: LogLevel;
+
+  /**
+   * Maximum age of the stage's secret key and whether exceeding it fails setup
+   */
+  keyRotation: KeyRotationPolicy;
+
+  /**
+   * Argon2 cost profile new values of the stage are encrypted with
+   */
+  argon2Profile: Argon2ProfileName;
+}
+
+/**
+ * Playwright option a stage project sets in its "use" block
+ */
+export interface StageTestOptions {
+  stage: EnvironmentStage;
+}
+
+/**
+ * Worker fixtures available to tests of a stage project
+ */
+export interface StageWorkerFixtures {
+  /**
+   * Decrypted configuration of the project's stage, loaded once per worker
+   */
+  stageConfig: StageConfig;
+}
+
+/**
+ * Entry of a stage in the stage config
+ */
+export interface EnvironmentStageDefinition<TStage extends string = string>
+  extends Partial<Readonly<EnvironmentStageSettings>> {
+  /**
+   * Other names ENV may select the stage by, e.g. "staging" for "preprod"
+   */
+  aliases?: readonly string[];
+
+  /**
+   * Stage whose settings apply to every setting this stage does not declare. Its environment
+   * files and secret key are not inherited.
+   */
+  extends?: TStage;
+}
+
+/**
+ * Age of the current secret key of a stage measured against its rotation policy
+ */
+export interface KeyAgeStatus {
+  keyName: string;
+  ageDays?: number;
+  maxAgeDays: number;
+  expired: boolean;
+}
+
+/**
+ * How a stage file that fails its integrity check is treated: "strict" refuses to load it,
+ * "warn" logs a warning and loads it, "off" skips the check
+ */
+export type IntegrityCheckMode = "strict" | "warn" | "off";
+
+/**
+ * Signed manifest stored next to a stage environment file
+ */
+export interface IntegrityManifest {
+  version: number;
+  algorithm: string;
+  keyName: string;
+  signedAt: string;
+  signature: string;
+}
+
+/**
+ * Outcome of checking a stage file against its integrity manifest
+ */
+export type ManifestVerificationStatus = "valid" | "invalid" | "missing" | "unverifiable";
+
+/**
+ * A change staged in an environment transaction
+ */
+export type EnvironmentTransactionOperation =
+  | {
+      type: "storeKey";
+      filePath: string;
+      keyName: string;
+      value: string;
+      options: { skipIfExists?: boolean };
+    }
+  | { type: "updateVariables"; filePath: string; variables: Record<string, string> }
+  | { type: "writeLines"; filePath: string; lines: string[] };
+
+/**
+ * Number and age of the snapshots kept for each environment file
+ */
+export interface SnapshotRetentionPolicy {
+  maxSnapshots: number;
+  maxAgeDays: number;
+}
+
+/**
+ * Stage key that can unlock a snapshot. keyName tags the key ring version (e.g.
+ * "QA_SECRET_KEY_V2"), and the fingerprint finds the key again under another name.
+ */
+export interface EnvironmentSnapshotKey {
+  keyName: string;
+  fingerprint: string;
+  wrappedKey: string;
+}
+
+/**
+ * Snapshot of an environment file stored under envs/.history. The file content is encrypted
+ * with a random data key, which is stored encrypted with every key of the file's stage, or of
+ * every stage for .env.secret.
+ */
+export interface EnvironmentSnapshot {
+  version: number;
+  id: string;
+  fileName: string;
+  createdAt: string;
+  reason: string;
+  keys: EnvironmentSnapshotKey[];
+  content: string;
+}
+
+/**
+ * Details of a stored snapshot, without its encrypted content and keys
+ */
+export type EnvironmentSnapshotInfo = Omit<EnvironmentSnapshot, "version" | "keys" | "content"> & {
+  keyNames: string[];
+};
+
+/**
+ * Variable names that differ between two versions of an environment file. Values are left
+ * out so a diff never exposes secrets.
+ */
+export interface EnvironmentSnapshotDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+/**
+ * Quoting style of a value in an environment file
+ */
+export type EnvironmentValueQuote = "none" | "single" | "double" | "backtick";
+
+/**
+ * Variable assignment in an environment file. The prefix and suffix hold the source text
+ * around the value (indentation, export keyword, key, spacing and inline comment), so an
+ * update rewrites only the value.
+ */
+export interface EnvironmentFileVariable {
+  type: "variable";
+  key: string;
+  value: string;
+  quote: EnvironmentValueQuote;
+  exported: boolean;
+  comment?: string;
+  lineNumber: number;
+  prefix: string;
+  suffix: string;
+  raw: string;
+}
+
+/**
+ * Blank line, comment, or line that is not a valid assignment. Invalid lines keep the key
+ * they tried to assign, if any.
+ */
+export interface EnvironmentFileTrivia {
+  type: "blank" | "comment" | "invalid";
+  key?: string;
+  lineNumber: number;
+  raw: string;
+}
+
+export type EnvironmentFileEntry = EnvironmentFileVariable | EnvironmentFileTrivia;
+
+/**
+ * Parsed environment file that formats back to its exact source text
+ */
+export interface EnvironmentFileDocument {
+  entries: EnvironmentFileEntry[];
+  lineEnding: "\n" | "\r\n";
+}
+
+/**
+ * How a variable containing ${VAR} references was expanded
+ */
+export interface InterpolationReportEntry {
+  key: string;
+  references: string[];
+  unresolved: string[];
+  deferred: string[];
+  value: string;
+}
+
+/**
+ * Expanded values of the variables that contained references, with a report entry for each
+ */
+export interface InterpolationResult {
+  values: Record<string, string>;
+  report: InterpolationReportEntry[];
+}
+
+/**
+ * Value types an environment variable can be declared with in the schema
+ */
+export type EnvironmentVariableType = "string" | "url" | "int" | "boolean" | "enum" | "email";
+
+/**
+ * Schema entry declaring how a variable must be set
+ */
+export interface EnvironmentVariableSchema {
+  type: EnvironmentVariableType;
+
+  /**
+   * Whether the variable must be set and non-empty (default: true)
+   */
+  required?: boolean;
+
+  /**
+   * Whether the stage file must store the value encrypted (default: false)
+   */
+  encrypted?: boolean;
+
+  /**
+   * Stages the entry applies to (default: every stage)
+   */
+  stages?: readonly EnvironmentStage[];
+
+  /**
+   * Allowed values of an "enum" variable
+   */
+  values?: readonly string[];
+}
+
+/**
+ * Schema entries by variable name
+ */
+export type EnvironmentSchema = Record<string, EnvironmentVariableSchema>;
+
+/**
+ * A variable that does not satisfy its schema entry
+ */
+export interface EnvironmentSchemaViolation {
+  variable: string;
+  message: string;
+  value?: string;
+}
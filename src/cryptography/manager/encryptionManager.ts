@@ -0,0 +1,501 @@
+import EncryptionService from "../service/encryptionService";
+import DerivedKeyCache from "../service/derivedKeyCache";
+import { CRYPTO_CONFIG } from "../types/crypto.config";
+import type {
+  Argon2Config,
+  Argon2ProfileName,
+  EncryptionFileHeader,
+  EncryptionOptions,
+  EncryptionSummary,
+  StageKeyRing,
+  VariableSelection,
+} from "../types/crypto.types";
+import { ENVIRONMENT_CONSTANTS } from "../../configuration/environment/constants/environment.constants";
+import type { EnvironmentStage } from "../../configuration/environment/constants/environment.constants";
+import EnvironmentDetector from "../../configuration/detector/environmentDetector";
+import EnvironmentStageResolver from "../../configuration/environment/stages/environmentStageResolver";
+import SecretFileManager from "../../configuration/environment/manager/secretFileManager";
+import StagesFileManager from "../../configuration/environment/manager/stagesFileManager";
+import SecretFilePathResolver from "../../configuration/environment/manager/filePath/secretFilePathResolver";
+import StagesFilePathResolver from "../../configuration/environment/manager/filePath/stagesFilePathResolver";
+import EnvironmentTransaction from "../../configuration/environment/manager/environmentTransaction";
+import ErrorHandler from "../../utils/errorHandling/errorHandler";
+import logger from "../../utils/logger/loggerManager";
+
+export default class EncryptionManager {
+  /**
+   * Encrypts the selected variables of a stage environment file in place. Values are stored
+   * in the ENC4 format against the file's encryption header, which is created on first use.
+   * The file and the secret file stay locked from the read through the write, so concurrent
+   * edits and rotations are not lost.
+   * @param stage - The environment stage whose file should be encrypted
+   * @param selection - Variable names, a key pattern, or "all" (default: "all")
+   * @returns Promise resolving to the names of encrypted, skipped and failed variables
+   */
+  public static async encryptStageVariables(
+    stage: EnvironmentStage,
+    selection: VariableSelection = "all",
+  ): Promise<EncryptionSummary> {
+    const filePath = StagesFilePathResolver.getEnvironmentStages()[stage];
+
+    try {
+      return await EnvironmentTransaction.withFileLocks(this.getLockedFiles(filePath), async () => {
+        const { secretKey, keyId } = await this.getEncryptionKey(stage);
+        const lines = await StagesFileManager.readEnvironmentFileAsLines(filePath);
+        const allVariables = StagesFileManager.extractEnvironmentVariables(lines);
+        const fileHeader =
+          StagesFileManager.extractFileHeader(lines) ??
+          EncryptionService.createFileHeader(this.getArgon2Parameters(stage));
+        const summary: EncryptionSummary = { encrypted: [], skipped: [], failed: [] };
+
+        const selectedVariables = this.selectVariables(allVariables, selection, summary);
+        const encryptedValues = await this.encryptVariables(
+          selectedVariables,
+          secretKey,
+          { keyId, fileHeader },
+          summary,
+        );
+
+        if (summary.encrypted.length > 0) {
+          const updatedLines = StagesFileManager.setFileHeader(
+            StagesFileManager.updateMultipleEnvironmentVariables(lines, encryptedValues),
+            fileHeader,
+          );
+          await StagesFileManager.writeEnvironmentFileLines(
+            filePath,
+            updatedLines,
+            summary.encrypted.length,
+          );
+        }
+
+        this.logEncryptionSummary(stage, summary);
+        return summary;
+      });
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "encryptStageVariables",
+        `Failed to encrypt environment variables for stage "${stage}"`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Decrypts every encrypted value among the given variables. ENC3 values are decrypted
+   * with the key ring entry named by their key ID; ENC2 values with the stage secret key,
+   * falling back to the key ring when no stage secret key is stored.
+   * @param stage - The environment stage whose secret keys should be used
+   * @param variables - The variables to scan for encrypted values
+   * @param fileHeader - Encryption header of the file the variables were read from
+   * @returns Promise resolving to the decrypted values keyed by variable name
+   * @throws Error if the secret key is missing or any value fails to decrypt
+   */
+  public static async decryptVariables(
+    stage: EnvironmentStage,
+    variables: Record<string, string>,
+    fileHeader?: EncryptionFileHeader,
+  ): Promise<Record<string, string>> {
+    const encryptedEntries = Object.entries(variables).filter(([, value]) =>
+      EncryptionService.isEncrypted(value),
+    );
+
+    if (encryptedEntries.length === 0) {
+      return {};
+    }
+
+    const { legacyKey, keyRing } = await this.getDecryptionKeys(stage);
+    const decryptedValues: Record<string, string> = {};
+    const failed: string[] = [];
+
+    for (const [key, value] of encryptedEntries) {
+      const decrypted = await this.tryDecrypt(value, legacyKey, keyRing, fileHeader);
+
+      if (decrypted === undefined) {
+        failed.push(key);
+      } else {
+        decryptedValues[key] = decrypted;
+      }
+    }
+
+    DerivedKeyCache.logStats(
+      `decrypting ${encryptedEntries.length} variables for stage "${stage}"`,
+    );
+
+    if (failed.length > 0) {
+      ErrorHandler.logAndThrow(
+        "decryptVariables",
+        `Failed to decrypt ${failed.length} variable(s) for stage "${stage}": ${failed.join(", ")}. ` +
+          `Verify that ${SecretFilePathResolver.getSecretVariables()[stage]} or its key ring holds the key these values were encrypted with.`,
+      );
+    }
+
+    return decryptedValues;
+  }
+
+  /**
+   * Converts the ENC2 and ENC3 values of a stage file to the ENC4 layout, in which a single
+   * file header holds the salt and Argon2 parameters and one key derivation covers the file.
+   * The file and the secret file stay locked from the read through the write.
+   * @param stage - The environment stage whose file should be migrated
+   * @returns Promise resolving to the names of the migrated variables
+   * @throws Error if any value fails to decrypt; the file is left unchanged
+   */
+  public static async migrateToFileHeader(stage: EnvironmentStage): Promise<string[]> {
+    const filePath = StagesFilePathResolver.getEnvironmentStages()[stage];
+
+    try {
+      return await EnvironmentTransaction.withFileLocks(this.getLockedFiles(filePath), async () => {
+        const lines = await StagesFileManager.readEnvironmentFileAsLines(filePath);
+        const existingHeader = StagesFileManager.extractFileHeader(lines);
+        const legacyValues = Object.fromEntries(
+          Object.entries(StagesFileManager.extractEnvironmentVariables(lines)).filter(
+            ([, value]) =>
+              EncryptionService.isEncrypted(value) && !EncryptionService.requiresFileHeader(value),
+          ),
+        );
+
+        if (Object.keys(legacyValues).length === 0) {
+          logger.info(`Environment file for stage "${stage}" has no values to migrate`);
+          return [];
+        }
+
+        const decryptedValues = await this.decryptVariables(stage, legacyValues, existingHeader);
+        const { secretKey, keyId } = await this.getEncryptionKey(stage);
+        const fileHeader =
+          existingHeader ?? EncryptionService.createFileHeader(this.getArgon2Parameters(stage));
+        const migratedValues: Record<string, string> = {};
+
+        for (const [key, value] of Object.entries(decryptedValues)) {
+          migratedValues[key] = await EncryptionService.encrypt(value, secretKey, {
+            keyId,
+            fileHeader,
+          });
+        }
+
+        const updatedLines = StagesFileManager.setFileHeader(
+          StagesFileManager.updateMultipleEnvironmentVariables(lines, migratedValues),
+          fileHeader,
+        );
+        await StagesFileManager.writeEnvironmentFileLines(
+          filePath,
+          updatedLines,
+          Object.keys(migratedValues).length,
+        );
+
+        logger.info(
+          `Migrated ${Object.keys(migratedValues).length} variables for stage "${stage}" to the file header layout`,
+        );
+        return Object.keys(migratedValues);
+      });
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "migrateToFileHeader",
+        `Failed to migrate environment file for stage "${stage}" to the file header layout`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the secret key of a stage from the secret environment file
+   * @param stage - The environment stage
+   * @returns Promise resolving to the stage secret key
+   * @throws Error if the secret key has not been generated
+   */
+  public static async getStageSecretKey(stage: EnvironmentStage): Promise<string> {
+    const keyName = SecretFilePathResolver.getSecretVariables()[stage];
+    const secretFilePath = SecretFilePathResolver.getSecretFilePath();
+
+    await SecretFileManager.ensureSecretKeyExists(keyName, secretFilePath);
+    const secretKey = await SecretFileManager.getKeyValue(secretFilePath, keyName);
+
+    return secretKey!.trim();
+  }
+
+  /**
+   * Resolves the Argon2 parameters new values of a stage are encrypted with: the profile
+   * named by ARGON2_PROFILE when set, otherwise the stage's profile
+   * @param stage - The environment stage
+   * @returns The Argon2 cost parameters
+   * @throws Error if ARGON2_PROFILE names a profile that does not exist
+   */
+  public static getArgon2Parameters(stage: EnvironmentStage): Argon2Config {
+    const profiles = CRYPTO_CONFIG.ARGON2_PROFILES;
+    const overrideProfile = process.env.ARGON2_PROFILE;
+
+    if (!overrideProfile) {
+      return profiles[EnvironmentStageResolver.getSettings(stage).argon2Profile];
+    }
+
+    if (!Object.hasOwn(profiles, overrideProfile)) {
+      ErrorHandler.logAndThrow(
+        "getArgon2Parameters",
+        `Unknown ARGON2_PROFILE "${overrideProfile}". Valid profiles: ${Object.keys(profiles).join(", ")}`,
+      );
+    }
+
+    return profiles[overrideProfile as Argon2ProfileName];
+  }
+
+  // Private methods
+
+  /**
+   * Lists the files an in-place change of a stage file locks: the stage file, and the secret
+   * file its key is read from. KeyRotationManager locks the same files in the same order.
+   * @param filePath - Path to the stage environment file
+   * @returns The files to lock
+   */
+  private static getLockedFiles(filePath: string): string[] {
+    return [SecretFilePathResolver.getSecretFilePath(), filePath];
+  }
+
+  /**
+   * Resolves the key new values should be encrypted with: the active key ring entry
+   * when the stage has one, otherwise the stage secret key
+   * @param stage - The environment stage
+   * @returns Promise resolving to the secret key and, for key ring entries, its key ID
+   */
+  private static async getEncryptionKey(
+    stage: EnvironmentStage,
+  ): Promise<{ secretKey: string; keyId?: string }> {
+    const keyRing = await SecretFileManager.getStageKeyRing(stage);
+    const activeKey = keyRing.activeKeyId ? keyRing.keys[keyRing.activeKeyId] : undefined;
+
+    if (activeKey) {
+      return { secretKey: activeKey, keyId: keyRing.activeKeyId };
+    }
+
+    return { secretKey: await this.getStageSecretKey(stage) };
+  }
+
+  /**
+   * Loads the stage secret key and key ring used for decryption
+   * @param stage - The environment stage
+   * @returns Promise resolving to the stage secret key (if stored) and the key ring
+   * @throws Error if the stage has neither a secret key nor a key ring
+   */
+  private static async getDecryptionKeys(
+    stage: EnvironmentStage,
+  ): Promise<{ legacyKey?: string; keyRing: StageKeyRing }> {
+    if (EnvironmentDetector.isCI()) {
+      return this.getCIDecryptionKeys(stage);
+    }
+
+    const keyRing = await SecretFileManager.getStageKeyRing(stage);
+
+    if (Object.keys(keyRing.keys).length === 0) {
+      return { legacyKey: await this.getStageSecretKey(stage), keyRing };
+    }
+
+    const legacyKey = await SecretFileManager.getKeyValue(
+      SecretFilePathResolver.getSecretFilePath(),
+      SecretFilePathResolver.getSecretVariables()[stage],
+    );
+
+    return { legacyKey: legacyKey?.trim() || undefined, keyRing };
+  }
+
+  /**
+   * Reads the decryption keys of a stage from CI-provided variables instead of the secret file
+   * @param stage - The environment stage
+   * @returns The legacy key, if set, and the key ring
+   * @throws Error if the build runs a pull request from a fork or its fork status is unknown,
+   * or the CI environment provides no key for the stage, or not the active one
+   */
+  private static getCIDecryptionKeys(stage: EnvironmentStage): {
+    legacyKey?: string;
+    keyRing: StageKeyRing;
+  } {
+    const ciContext = EnvironmentDetector.getCIContext();
+    if (ciContext?.isFork) {
+      ErrorHandler.logAndThrow(
+        "getCIDecryptionKeys",
+        `Refusing to decrypt stage "${stage}" in a ${ciContext.provider} build of pull request ` +
+          `#${ciContext.pullRequestNumber ?? "unknown"} from a fork. Secrets are only decrypted in builds of the repository itself.`,
+      );
+    }
+
+    if (ciContext && ciContext.isFork === undefined) {
+      ErrorHandler.logAndThrow(
+        "getCIDecryptionKeys",
+        `Refusing to decrypt stage "${stage}" in a ${ciContext.provider} build that may run a pull request from a fork. ` +
+          `Set CI_IS_FORK=false in builds of the repository itself, or CI_IS_FORK=true in pull request builds from forks.`,
+      );
+    }
+
+    const secretKeyName = SecretFilePathResolver.getSecretVariables()[stage];
+    const keyRing = SecretFileManager.getEnvironmentKeyRing(stage);
+    const legacyKey = process.env[secretKeyName]?.trim() || undefined;
+
+    if (!legacyKey && Object.keys(keyRing.keys).length === 0) {
+      ErrorHandler.logAndThrow(
+        "getCIDecryptionKeys",
+        `No secret key for stage "${stage}" in the CI environment. ` +
+          `Add ${secretKeyName} (or its key ring ${secretKeyName}_${ENVIRONMENT_CONSTANTS.KEY_VERSION_PREFIX}<n> variables) as a CI secret.`,
+      );
+    }
+
+    if (keyRing.activeKeyId && !keyRing.keys[keyRing.activeKeyId]) {
+      ErrorHandler.logAndThrow(
+        "getCIDecryptionKeys",
+        `${SecretFilePathResolver.getActiveKeyVariables()[stage]} is ${keyRing.activeKeyId}, but the CI environment does not provide ${secretKeyName}_${keyRing.activeKeyId}.`,
+      );
+    }
+
+    return { legacyKey, keyRing };
+  }
+
+  /**
+   * Lists the keys that may decrypt a value, in the order they should be tried
+   * @param value - The encrypted value
+   * @param legacyKey - The stage secret key, if stored
+   * @param keyRing - The stage key ring
+   * @returns The candidate secret keys
+   */
+  private static getCandidateKeys(
+    value: string,
+    legacyKey: string | undefined,
+    keyRing: StageKeyRing,
+  ): string[] {
+    const keyId = EncryptionService.getKeyId(value);
+
+    if (keyId) {
+      const ringKey = keyRing.keys[keyId];
+      if (!ringKey) {
+        logger.warn(`Key "${keyId}" referenced by an encrypted value is not in the key ring`);
+      }
+      return ringKey ? [ringKey] : [];
+    }
+
+    if (legacyKey) {
+      return [legacyKey];
+    }
+
+    const { activeKeyId, keys } = keyRing;
+    const activeKey = activeKeyId ? keys[activeKeyId] : undefined;
+    const otherKeys = Object.entries(keys)
+      .filter(([keyId]) => keyId !== activeKeyId)
+      .map(([, key]) => key);
+
+    return activeKey ? [activeKey, ...otherKeys] : otherKeys;
+  }
+
+  /**
+   * Tries each candidate key until one decrypts the value
+   * @param value - The encrypted value
+   * @param legacyKey - The stage secret key, if stored
+   * @param keyRing - The stage key ring
+   * @param fileHeader - Encryption header of the file the value was read from
+   * @returns Promise resolving to the decrypted value, or undefined if no key fits
+   */
+  private static async tryDecrypt(
+    value: string,
+    legacyKey: string | undefined,
+    keyRing: StageKeyRing,
+    fileHeader?: EncryptionFileHeader,
+  ): Promise<string | undefined> {
+    let candidateKeys: string[];
+
+    try {
+      candidateKeys = this.getCandidateKeys(value, legacyKey, keyRing);
+    } catch {
+      return undefined;
+    }
+
+    for (const candidateKey of candidateKeys) {
+      try {
+        return await EncryptionService.decrypt(value, candidateKey, fileHeader);
+      } catch {
+        // Try the next candidate key
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Picks the variables to encrypt, recording unknown names as failed
+   * @param allVariables - All variables of the stage file
+   * @param selection - Variable names, a key pattern, or "all"
+   * @param summary - The summary to record unknown variables in
+   * @returns The selected variables
+   */
+  private static selectVariables(
+    allVariables: Record<string, string>,
+    selection: VariableSelection,
+    summary: EncryptionSummary,
+  ): Record<string, string> {
+    if (selection === "all") {
+      return { ...allVariables };
+    }
+
+    if (selection instanceof RegExp) {
+      return StagesFileManager.findEnvironmentVariablesByPattern(allVariables, selection);
+    }
+
+    const selected: Record<string, string> = {};
+
+    for (const variableName of selection) {
+      if (!StagesFileManager.hasEnvironmentVariable(allVariables, variableName)) {
+        logger.warn(`Environment variable "${variableName}" not found — cannot encrypt it`);
+        summary.failed.push(variableName);
+        continue;
+      }
+      selected[variableName] = allVariables[variableName];
+    }
+
+    return selected;
+  }
+
+  /**
+   * Encrypts each variable, skipping empty and already encrypted values
+   * @param variables - The variables to encrypt
+   * @param secretKey - The secret key to encrypt with
+   * @param options - The key ID and Argon2 parameters to encrypt with
+   * @param summary - The summary to record each outcome in
+   * @returns Promise resolving to the encrypted values keyed by variable name
+   */
+  private static async encryptVariables(
+    variables: Record<string, string>,
+    secretKey: string,
+    options: EncryptionOptions,
+    summary: EncryptionSummary,
+  ): Promise<Record<string, string>> {
+    const encryptedValues: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(variables)) {
+      if (!value || EncryptionService.isEncrypted(value)) {
+        summary.skipped.push(key);
+        continue;
+      }
+
+      try {
+        encryptedValues[key] = await EncryptionService.encrypt(value, secretKey, options);
+        summary.encrypted.push(key);
+      } catch (error) {
+        ErrorHandler.captureError(error, "encryptVariables", `Failed to encrypt "${key}"`);
+        summary.failed.push(key);
+      }
+    }
+
+    return encryptedValues;
+  }
+
+  /**
+   * Logs the outcome of a stage-wide encryption run
+   * @param stage - The environment stage
+   * @param summary - The encryption summary
+   */
+  private static logEncryptionSummary(stage: EnvironmentStage, summary: EncryptionSummary): void {
+    const message =
+      `Encryption for stage "${stage}" completed: ${summary.encrypted.length} encrypted, ` +
+      `${summary.skipped.length} skipped, ${summary.failed.length} failed`;
+
+    if (summary.failed.length > 0) {
+      logger.warn(`${message}. Failed variables: ${summary.failed.join(", ")}`);
+    } else {
+      logger.info(message);
+    }
+  }
+}
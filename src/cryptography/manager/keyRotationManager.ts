@@ -0,0 +1,284 @@
+import EncryptionManager from "./encryptionManager";
+import EncryptionService from "../service/encryptionService";
+import CryptoValueGenerator from "../service/cryptoValueGenerator";
+import { CRYPTO_TYPE, OUTPUT_FORMAT } from "../types/crypto.config";
+import type {
+  EncryptionFileHeader,
+  EncryptionOptions,
+  KeyRotationResult,
+} from "../types/crypto.types";
+import type { EnvironmentStage } from "../../configuration/environment/constants/environment.constants";
+import EnvironmentStageResolver from "../../configuration/environment/stages/environmentStageResolver";
+import type {
+  KeyAgeStatus,
+  KeyRotationPolicy,
+} from "../../configuration/environment/types/environment.types";
+import SecretFileManager from "../../configuration/environment/manager/secretFileManager";
+import StagesFileManager from "../../configuration/environment/manager/stagesFileManager";
+import EnvironmentTransaction from "../../configuration/environment/manager/environmentTransaction";
+import SecretFilePathResolver from "../../configuration/environment/manager/filePath/secretFilePathResolver";
+import StagesFilePathResolver from "../../configuration/environment/manager/filePath/stagesFilePathResolver";
+import ErrorHandler from "../../utils/errorHandling/errorHandler";
+import logger from "../../utils/logger/loggerManager";
+
+export default class KeyRotationManager {
+  private static readonly MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+  /**
+   * Rotates the secret key of a stage and re-encrypts its environment file with the new key.
+   * Stages with a key ring get a new active key version and their values carry its key ID;
+   * otherwise the previous key is kept as <STAGE>_SECRET_KEY_PREVIOUS. Values are rewritten
+   * in the ENC4 layout under a new file header. If any value fails
+   * to decrypt, the rotation is aborted before any file is changed. The secret file and the
+   * stage file stay locked from reading the key ring through the write, so overlapping
+   * rotations run one after the other instead of both picking the same key version.
+   * @param stage - The environment stage whose key should be rotated
+   * @returns Promise resolving to the rotation result
+   */
+  public static async rotateStageKey(stage: EnvironmentStage): Promise<KeyRotationResult> {
+    const stageFilePath = StagesFilePathResolver.getEnvironmentStages()[stage];
+    const secretFilePath = SecretFilePathResolver.getSecretFilePath();
+
+    try {
+      return await EnvironmentTransaction.withFileLocks([secretFilePath, stageFilePath], () =>
+        this.rotateLockedStageKey(stage, stageFilePath),
+      );
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "rotateStageKey",
+        `Failed to rotate secret key for stage "${stage}"`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Measures the age of the stage's current secret key against its rotation policy
+   * @param stage - The environment stage
+   * @returns Promise resolving to the key age status; ageDays is undefined when no
+   * creation time was recorded for the key
+   */
+  public static async checkKeyAge(stage: EnvironmentStage): Promise<KeyAgeStatus> {
+    const policy = this.getRotationPolicy(stage);
+    const keyName = await SecretFileManager.getCurrentStageKeyName(stage);
+    const metadata = await SecretFileManager.getKeyMetadata(keyName);
+
+    if (!metadata) {
+      return { keyName, maxAgeDays: policy.maxAgeDays, expired: false };
+    }
+
+    const ageDays = Math.floor((Date.now() - Date.parse(metadata.createdAt)) / this.MS_PER_DAY);
+    return {
+      keyName,
+      ageDays,
+      maxAgeDays: policy.maxAgeDays,
+      expired: ageDays > policy.maxAgeDays,
+    };
+  }
+
+  /**
+   * Warns when the stage's current secret key is older than its policy allows,
+   * or fails when the policy is strict
+   * @param stage - The environment stage
+   * @throws Error if the key is expired and the policy is strict
+   */
+  public static async enforceRotationPolicy(stage: EnvironmentStage): Promise<void> {
+    const policy = this.getRotationPolicy(stage);
+    const status = await this.checkKeyAge(stage);
+
+    if (status.ageDays === undefined) {
+      logger.debug(`No creation time recorded for "${status.keyName}" — skipping key age check`);
+      return;
+    }
+
+    if (!status.expired) {
+      logger.debug(
+        `Secret key "${status.keyName}" is ${status.ageDays} days old (maximum ${status.maxAgeDays})`,
+      );
+      return;
+    }
+
+    const message =
+      `Secret key "${status.keyName}" for stage "${stage}" is ${status.ageDays} days old, ` +
+      `exceeding the maximum of ${status.maxAgeDays} days. Rotate it with KeyRotationManager.rotateStageKey("${stage}").`;
+
+    if (policy.strict) {
+      ErrorHandler.logAndThrow("enforceRotationPolicy", message);
+    }
+
+    logger.warn(message);
+  }
+
+  // Private methods
+
+  /**
+   * Resolves the rotation policy of a stage, applying KEY_MAX_AGE_DAYS and
+   * KEY_ROTATION_STRICT overrides from the environment
+   * @param stage - The environment stage
+   * @returns The effective rotation policy
+   */
+  private static getRotationPolicy(stage: EnvironmentStage): KeyRotationPolicy {
+    const policy = { ...EnvironmentStageResolver.getSettings(stage).keyRotation };
+    const maxAgeDays = parseInt(process.env.KEY_MAX_AGE_DAYS || "", 10);
+
+    if (!Number.isNaN(maxAgeDays) && maxAgeDays > 0) {
+      policy.maxAgeDays = maxAgeDays;
+    }
+
+    if (process.env.KEY_ROTATION_STRICT !== undefined) {
+      policy.strict = process.env.KEY_ROTATION_STRICT === "true";
+    }
+
+    return policy;
+  }
+
+  /**
+   * Rotates the secret key of a stage while rotateStageKey holds the locks of the secret file
+   * and the stage file
+   * @param stage - The environment stage whose key should be rotated
+   * @param stageFilePath - Path to the stage environment file
+   * @returns Promise resolving to the rotation result
+   */
+  private static async rotateLockedStageKey(
+    stage: EnvironmentStage,
+    stageFilePath: string,
+  ): Promise<KeyRotationResult> {
+    const newKey = CryptoValueGenerator.generate({
+      type: CRYPTO_TYPE.SECRET_KEY,
+      outputFormat: OUTPUT_FORMAT.BASE64,
+    }) as string;
+    const plan = await this.planRotation(stage, newKey);
+
+    const originalLines = await StagesFileManager.readEnvironmentFileAsLines(stageFilePath);
+    const variables = StagesFileManager.extractEnvironmentVariables(originalLines);
+    const fileHeader = EncryptionService.createFileHeader(
+      EncryptionManager.getArgon2Parameters(stage),
+    );
+    const reEncryptedValues = await this.reEncryptValues(
+      stage,
+      variables,
+      StagesFileManager.extractFileHeader(originalLines),
+      newKey,
+      { keyId: plan.keyId, fileHeader },
+    );
+
+    const updatedLines = StagesFileManager.setFileHeader(
+      StagesFileManager.updateMultipleEnvironmentVariables(originalLines, reEncryptedValues),
+      fileHeader,
+    );
+
+    await this.writeRotatedFiles(stageFilePath, updatedLines, plan.keysToStore);
+    await SecretFileManager.recordKeyCreated(plan.keyName, { rotated: true });
+
+    logger.info(
+      `Rotated secret key "${plan.keyName}" for stage "${stage}" and re-encrypted ${Object.keys(reEncryptedValues).length} variables`,
+    );
+
+    return {
+      stage,
+      keyName: plan.keyName,
+      previousKeyName: plan.previousKeyName,
+      keyId: plan.keyId,
+      reEncryptedVariables: Object.keys(reEncryptedValues),
+    };
+  }
+
+  /**
+   * Determines the key names and secret file entries a rotation writes
+   * @param stage - The environment stage
+   * @param newKey - The replacement secret key
+   * @returns Promise resolving to the rotation plan
+   */
+  private static async planRotation(
+    stage: EnvironmentStage,
+    newKey: string,
+  ): Promise<{
+    keyName: string;
+    previousKeyName: string;
+    keyId?: string;
+    keysToStore: Record<string, string>;
+  }> {
+    const keyRing = await SecretFileManager.getStageKeyRing(stage);
+
+    if (keyRing.activeKeyId) {
+      const keyId = SecretFileManager.getNextKeyId(keyRing);
+      const keyName = SecretFilePathResolver.getKeyRingVariable(stage, keyId);
+
+      return {
+        keyName,
+        previousKeyName: SecretFilePathResolver.getKeyRingVariable(stage, keyRing.activeKeyId),
+        keyId,
+        keysToStore: {
+          [keyName]: newKey,
+          [SecretFilePathResolver.getActiveKeyVariables()[stage]]: keyId,
+        },
+      };
+    }
+
+    const keyName = SecretFilePathResolver.getSecretVariables()[stage];
+    const previousKeyName = SecretFilePathResolver.getPreviousSecretVariables()[stage];
+    const oldKey = await EncryptionManager.getStageSecretKey(stage);
+
+    return {
+      keyName,
+      previousKeyName,
+      keysToStore: { [keyName]: newKey, [previousKeyName]: oldKey },
+    };
+  }
+
+  /**
+   * Decrypts every encrypted value with the current key and re-encrypts it with the new key
+   * against a fresh file header
+   * @param stage - The environment stage
+   * @param variables - All variables of the stage file
+   * @param currentHeader - The current encryption header of the stage file, if any
+   * @param newKey - The replacement secret key
+   * @param options - The key ring ID of the replacement key and the new file header
+   * @returns Promise resolving to the re-encrypted values keyed by variable name
+   * @throws Error if any value cannot be decrypted with the current key
+   */
+  private static async reEncryptValues(
+    stage: EnvironmentStage,
+    variables: Record<string, string>,
+    currentHeader: EncryptionFileHeader | undefined,
+    newKey: string,
+    options: EncryptionOptions,
+  ): Promise<Record<string, string>> {
+    const decryptedValues = await EncryptionManager.decryptVariables(
+      stage,
+      variables,
+      currentHeader,
+    );
+    const reEncryptedValues: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(decryptedValues)) {
+      reEncryptedValues[key] = await EncryptionService.encrypt(value, newKey, options);
+    }
+
+    return reEncryptedValues;
+  }
+
+  /**
+   * Writes the secret file and the stage file in one transaction. The new and previous keys are
+   * stored before the stage file is re-encrypted on disk, so the key it is encrypted with is
+   * never held only in memory; both files are restored if either write fails.
+   * @param stageFilePath - Path to the stage environment file
+   * @param updatedLines - The re-encrypted stage file lines
+   * @param keys - The new and previous secret keys to store
+   */
+  private static async writeRotatedFiles(
+    stageFilePath: string,
+    updatedLines: string[],
+    keys: Record<string, string>,
+  ): Promise<void> {
+    const secretFilePath = SecretFilePathResolver.getSecretFilePath();
+
+    await EnvironmentTransaction.run((transaction) => {
+      for (const [keyName, value] of Object.entries(keys)) {
+        transaction.storeKeyInFile(secretFilePath, keyName, value);
+      }
+      transaction.writeEnvironmentFileLines(stageFilePath, updatedLines);
+    });
+  }
+}
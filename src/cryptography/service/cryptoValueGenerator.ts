@@ -0,0 +1,186 @@
+import * as crypto from "crypto";
+import { CRYPTO_CONFIG, CRYPTO_TYPE, OUTPUT_FORMAT } from "../types/crypto.config";
+import type {
+  CryptoGenerationOptions,
+  CryptoGenerationResult,
+  CryptoType,
+} from "../types/crypto.types";
+import type { EnvironmentStage } from "../../configuration/environment/constants/environment.constants";
+import SecretFileManager from "../../configuration/environment/manager/secretFileManager";
+import SecretFilePathResolver from "../../configuration/environment/manager/filePath/secretFilePathResolver";
+import ErrorHandler from "../../utils/errorHandling/errorHandler";
+import logger from "../../utils/logger/loggerManager";
+
+export default class CryptoValueGenerator {
+  /**
+   * Generates a cryptographically secure random value
+   * @param options - The type, output format and optional byte length of the value
+   * @returns The generated value in the requested output format
+   */
+  public static generate(options: CryptoGenerationOptions): CryptoGenerationResult {
+    try {
+      const length = options.length ?? this.getDefaultLength(options.type);
+      this.validateLength(length);
+
+      const bytes = crypto.randomBytes(length);
+      return this.formatOutput(bytes, options);
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "generate",
+        `Failed to generate cryptographic value of type "${options.type}"`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Generates a new secret key for a stage and stores it in the secret environment file
+   * @param stage - The environment stage to generate the key for
+   * @param options - Optional parameters to control behavior
+   * @param options.skipIfExists - If true, keeps an existing key untouched (default: true)
+   * @returns Promise resolving to boolean indicating if a new key was stored
+   */
+  public static async generateStageSecretKey(
+    stage: EnvironmentStage,
+    options: { skipIfExists?: boolean } = {},
+  ): Promise<boolean> {
+    const { skipIfExists = true } = options;
+    const keyName = SecretFilePathResolver.getSecretVariables()[stage];
+
+    try {
+      const secretKey = this.generate({
+        type: CRYPTO_TYPE.SECRET_KEY,
+        outputFormat: OUTPUT_FORMAT.BASE64,
+      }) as string;
+
+      const stored = await SecretFileManager.storeEnvironmentKey(keyName, secretKey, {
+        skipIfExists,
+      });
+
+      if (stored) {
+        await SecretFileManager.recordKeyCreated(keyName);
+        logger.info(`Generated new secret key "${keyName}" for stage "${stage}"`);
+      }
+
+      return stored;
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "generateStageSecretKey",
+        `Failed to generate secret key "${keyName}" for stage "${stage}"`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Generates a new secret key and adds it to the stage key ring under the next version ID
+   * @param stage - The environment stage to generate the key for
+   * @param options - Optional parameters to control behavior
+   * @param options.activate - If true, marks the new key as the active key (default: true)
+   * @returns Promise resolving to the key ID of the new key (e.g. "V2")
+   */
+  public static async generateStageKeyVersion(
+    stage: EnvironmentStage,
+    options: { activate?: boolean } = {},
+  ): Promise<string> {
+    try {
+      const secretKey = this.generate({
+        type: CRYPTO_TYPE.SECRET_KEY,
+        outputFormat: OUTPUT_FORMAT.BASE64,
+      }) as string;
+
+      const keyId = await SecretFileManager.addStageKeyVersion(stage, secretKey, options);
+      await SecretFileManager.recordKeyCreated(
+        SecretFilePathResolver.getKeyRingVariable(stage, keyId),
+      );
+      logger.info(`Added secret key version "${keyId}" to the key ring for stage "${stage}"`);
+
+      return keyId;
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "generateStageKeyVersion",
+        `Failed to generate a secret key version for stage "${stage}"`,
+      );
+      throw error;
+    }
+  }
+
+  // Private methods
+
+  /**
+   * Resolves the default byte length for a cryptographic value type
+   * @param type - The type of value being generated
+   * @returns The default byte length
+   */
+  private static getDefaultLength(type: CryptoType): number {
+    switch (type) {
+      case CRYPTO_TYPE.SALT:
+        return CRYPTO_CONFIG.BYTE_LENGTHS.SALT;
+      case CRYPTO_TYPE.SECRET_KEY:
+        return CRYPTO_CONFIG.BYTE_LENGTHS.SECRET_KEY;
+      case CRYPTO_TYPE.IV:
+        return CRYPTO_CONFIG.BYTE_LENGTHS.IV;
+      case CRYPTO_TYPE.RANDOM:
+        return CRYPTO_CONFIG.BYTE_LENGTHS.SECRET_KEY;
+      default:
+        // Exhaustive check - this should never be reached
+        const _exhaustive: never = type;
+        return ErrorHandler.logAndThrow(
+          "CryptoValueGenerator",
+          `Unknown crypto type: ${type}. Valid types: ${Object.values(CRYPTO_TYPE).join(", ")}.`,
+        );
+    }
+  }
+
+  /**
+   * Validates a byte length against the configured limits
+   * @param length - The byte length to validate
+   */
+  private static validateLength(length: number): void {
+    const { MIN_SECURE_LENGTH, MAX_REASONABLE_LENGTH } = CRYPTO_CONFIG.VALIDATION_LIMITS;
+
+    if (!Number.isInteger(length)) {
+      ErrorHandler.logAndThrow(
+        "validateLength",
+        `Invalid length: expected an integer, got ${length}`,
+      );
+    }
+
+    if (length < MIN_SECURE_LENGTH || length > MAX_REASONABLE_LENGTH) {
+      ErrorHandler.logAndThrow(
+        "validateLength",
+        `Invalid length: ${length} bytes. Length must be between ${MIN_SECURE_LENGTH} and ${MAX_REASONABLE_LENGTH} bytes`,
+      );
+    }
+  }
+
+  /**
+   * Encodes the generated bytes in the requested output format
+   * @param bytes - The generated bytes
+   * @param options - The generation options holding the output format
+   * @returns The encoded value
+   */
+  private static formatOutput(
+    bytes: Buffer,
+    options: CryptoGenerationOptions,
+  ): CryptoGenerationResult {
+    switch (options.outputFormat) {
+      case OUTPUT_FORMAT.BASE64:
+        return bytes.toString("base64");
+      case OUTPUT_FORMAT.HEX:
+        return bytes.toString("hex");
+      case OUTPUT_FORMAT.BUFFER:
+        return bytes;
+      default:
+        // Exhaustive check - this should never be reached
+        const _exhaustive: never = options.outputFormat;
+        return ErrorHandler.logAndThrow(
+          "CryptoValueGenerator",
+          `Unknown output format: ${options.outputFormat}. Valid formats: ${Object.values(OUTPUT_FORMAT).join(", ")}.`,
+        );
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import * as crypto from "crypto";
+import { CRYPTO_CONFIG } from "../types/crypto.config";
+import type { Argon2Config, DerivedKeyCacheStats } from "../types/crypto.types";
+import logger from "../../utils/logger/loggerManager";
+
+interface DerivedKeyCacheEntry {
+  derivedKey: Buffer;
+  expiresAt: number;
+}
+
+export default class DerivedKeyCache {
+  private static readonly entries = new Map<string, DerivedKeyCacheEntry>();
+  private static stats = { hits: 0, misses: 0, evictions: 0 };
+
+  /**
+   * Returns the cached Argon2 output for a secret key, salt and parameter set, deriving
+   * and caching it on a miss. Entries expire after DERIVED_KEY_CACHE.TTL_MS and the
+   * least recently used entry is evicted once DERIVED_KEY_CACHE.MAX_ENTRIES is reached.
+   * @param secretKey - The secret key the value was derived from
+   * @param salt - The salt of the derivation
+   * @param argon2Parameters - The Argon2 cost parameters of the derivation
+   * @param derive - Performs the derivation on a cache miss
+   * @returns Promise resolving to the raw derived key
+   */
+  public static async getOrDerive(
+    secretKey: string,
+    salt: Buffer,
+    argon2Parameters: Argon2Config,
+    derive: () => Promise<Buffer>,
+  ): Promise<Buffer> {
+    const cacheKey = this.getCacheKey(secretKey, salt, argon2Parameters);
+    const entry = this.entries.get(cacheKey);
+
+    if (entry && entry.expiresAt > Date.now()) {
+      // Re-insert so the Map's insertion order tracks recency
+      this.entries.delete(cacheKey);
+      this.entries.set(cacheKey, entry);
+      this.stats.hits++;
+      return entry.derivedKey;
+    }
+
+    if (entry) {
+      this.removeEntry(cacheKey, entry);
+    }
+
+    this.stats.misses++;
+    const derivedKey = await derive();
+    this.store(cacheKey, derivedKey);
+
+    return derivedKey;
+  }
+
+  /**
+   * Zeroes every cached derived key and empties the cache
+   */
+  public static clear(): void {
+    for (const entry of this.entries.values()) {
+      entry.derivedKey.fill(0);
+    }
+    this.entries.clear();
+    this.stats = { hits: 0, misses: 0, evictions: 0 };
+  }
+
+  /**
+   * Returns the current size and hit, miss and eviction counters of the cache
+   * @returns The cache statistics
+   */
+  public static getStats(): DerivedKeyCacheStats {
+    return { size: this.entries.size, ...this.stats };
+  }
+
+  /**
+   * Writes the cache statistics to the debug log
+   * @param context - Describes the operation the statistics follow
+   */
+  public static logStats(context: string): void {
+    const { size, hits, misses, evictions } = this.getStats();
+    logger.debug(
+      `Derived-key cache after ${context}: ${hits} hits, ${misses} misses, ${evictions} evictions, ${size} entries`,
+    );
+  }
+
+  // Private methods
+
+  /**
+   * Builds the cache key from a fingerprint of the secret key, so the key itself is never
+   * held as a Map key, together with the salt and Argon2 parameters
+   * @param secretKey - The secret key
+   * @param salt - The salt of the derivation
+   * @param argon2Parameters - The Argon2 cost parameters
+   * @returns The cache key
+   */
+  private static getCacheKey(
+    secretKey: string,
+    salt: Buffer,
+    argon2Parameters: Argon2Config,
+  ): string {
+    const fingerprint = crypto.createHash("sha256").update(secretKey, "utf8").digest("base64");
+    const { MEMORY_COST, TIME_COST, PARALLELISM } = argon2Parameters;
+
+    return [fingerprint, salt.toString("base64"), MEMORY_COST, TIME_COST, PARALLELISM].join(":");
+  }
+
+  /**
+   * Stores a derived key, evicting the least recently used entries beyond the size limit
+   * @param cacheKey - The cache key
+   * @param derivedKey - The raw derived key
+   */
+  private static store(cacheKey: string, derivedKey: Buffer): void {
+    const { MAX_ENTRIES, TTL_MS } = CRYPTO_CONFIG.DERIVED_KEY_CACHE;
+
+    this.entries.set(cacheKey, { derivedKey, expiresAt: Date.now() + TTL_MS });
+
+    while (this.entries.size > MAX_ENTRIES) {
+      const [oldestKey, oldestEntry] = this.entries.entries().next().value!;
+      this.removeEntry(oldestKey, oldestEntry);
+      this.stats.evictions++;
+    }
+  }
+
+  /**
+   * Zeroes and removes a single entry
+   * @param cacheKey - The cache key
+   * @param entry - The entry to remove
+   */
+  private static removeEntry(cacheKey: string, entry: DerivedKeyCacheEntry): void {
+    entry.derivedKey.fill(0);
+    this.entries.delete(cacheKey);
+  }
+}
@@ -0,0 +1,566 @@
+import * as argon2 from "argon2";
+import * as crypto from "crypto";
+import { CRYPTO_CONFIG, CRYPTO_CONSTANTS } from "../types/crypto.config";
+import type {
+  Argon2Config,
+  EncryptionFileHeader,
+  EncryptionFormat,
+  EncryptionOptions,
+  EncryptionResult,
+} from "../types/crypto.types";
+import DerivedKeyCache from "./derivedKeyCache";
+import ErrorHandler from "../../utils/errorHandling/errorHandler";
+
+export default class EncryptionService {
+  /**
+   * Encrypts a plain text value. With a file header the value is stored in the ENC4 format,
+   * which carries only the key ID, iv and cipher text and takes its salt and Argon2 parameters
+   * from the header; otherwise in the ENC3 format, which records its own salt and parameters.
+   * @param plainText - The value to encrypt
+   * @param secretKey - The secret key used to derive the encryption key
+   * @param options - Optional parameters to control encryption
+   * @param options.keyId - ID of the key ring entry the secret key belongs to
+   * @param options.argon2Parameters - Argon2 cost parameters (default: CRYPTO_CONFIG.ARGON2_PARAMETERS)
+   * @param options.fileHeader - Header of the file the value is written to; takes precedence
+   * over options.argon2Parameters
+   * @returns Promise resolving to "ENC4:kid=<keyId>:iv:cipherText" with a file header, otherwise
+   * "ENC3:kid=<keyId>;m=<memory>;t=<time>;p=<parallelism>:salt:iv:cipherText"
+   */
+  public static async encrypt(
+    plainText: string,
+    secretKey: string,
+    options: EncryptionOptions = {},
+  ): Promise<string> {
+    try {
+      this.validateSecretKey(secretKey);
+
+      if (options.fileHeader) {
+        const { salt, argon2Parameters } = options.fileHeader;
+        const key = await this.getDerivedKey(
+          secretKey,
+          Buffer.from(salt, "base64"),
+          argon2Parameters,
+        );
+        const { iv, cipherText } = await this.encryptWithKey(plainText, key);
+
+        return this.formatFileEncryptedValue(iv, cipherText, options.keyId);
+      }
+
+      const argon2Parameters = options.argon2Parameters ?? CRYPTO_CONFIG.ARGON2_PARAMETERS;
+      const salt = crypto.randomBytes(CRYPTO_CONFIG.BYTE_LENGTHS.SALT);
+      const key = await this.importKey(
+        await this.deriveKeyBytes(secretKey, salt, argon2Parameters),
+      );
+      const { iv, cipherText } = await this.encryptWithKey(plainText, key);
+
+      return this.formatEncryptedValue({
+        salt: salt.toString("base64"),
+        iv,
+        cipherText,
+        keyId: options.keyId,
+        argon2Parameters,
+      });
+    } catch (error) {
+      ErrorHandler.captureError(error, "encrypt", "Failed to encrypt value");
+      throw error;
+    }
+  }
+
+  /**
+   * Decrypts a value stored in the ENC2, ENC3 or ENC4 format. Derived keys are cached, so
+   * values sharing a secret key, salt and Argon2 parameters run Argon2 only once.
+   * @param encValue - The encrypted value
+   * @param secretKey - The secret key used to derive the decryption key
+   * @param fileHeader - Header of the file the value was read from (required for ENC4 values)
+   * @returns Promise resolving to the decrypted plain text
+   */
+  public static async decrypt(
+    encValue: string,
+    secretKey: string,
+    fileHeader?: EncryptionFileHeader,
+  ): Promise<string> {
+    try {
+      this.validateSecretKey(secretKey);
+
+      const { salt, iv, cipherText, argon2Parameters } = this.parseEncryptedValue(
+        encValue,
+        fileHeader,
+      );
+      const key = await this.getDerivedKey(
+        secretKey,
+        Buffer.from(salt, "base64"),
+        argon2Parameters ?? CRYPTO_CONFIG.ARGON2_PARAMETERS,
+      );
+
+      const decrypted = await crypto.webcrypto.subtle.decrypt(
+        { name: CRYPTO_CONSTANTS.ALGORITHM.CIPHER, iv: Buffer.from(iv, "base64") },
+        key,
+        Buffer.from(cipherText, "base64"),
+      );
+
+      return Buffer.from(decrypted).toString("utf8");
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "decrypt",
+        "Failed to decrypt value. The secret key may be wrong or the value may have been modified",
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Encrypts a plain text value directly with a random 256-bit key, without key derivation.
+   * Meant for short-lived data protected by a one-time key, not for values stored in env files.
+   * @param plainText - The value to encrypt
+   * @param rawKey - The 32-byte key
+   * @returns Promise resolving to "iv:cipherText"
+   */
+  public static async encryptWithRawKey(plainText: string, rawKey: Buffer): Promise<string> {
+    try {
+      const { iv, cipherText } = await this.encryptWithKey(plainText, await this.importKey(rawKey));
+      return [iv, cipherText].join(CRYPTO_CONSTANTS.FORMAT.SEPARATOR);
+    } catch (error) {
+      ErrorHandler.captureError(error, "encryptWithRawKey", "Failed to encrypt value");
+      throw error;
+    }
+  }
+
+  /**
+   * Decrypts a value produced by encryptWithRawKey
+   * @param encValue - The encrypted value in the "iv:cipherText" format
+   * @param rawKey - The 32-byte key
+   * @returns Promise resolving to the decrypted plain text
+   */
+  public static async decryptWithRawKey(encValue: string, rawKey: Buffer): Promise<string> {
+    try {
+      const [iv, cipherText] = encValue.split(CRYPTO_CONSTANTS.FORMAT.SEPARATOR);
+
+      if (!iv || !cipherText) {
+        ErrorHandler.logAndThrow(
+          "decryptWithRawKey",
+          'Invalid encrypted value: expected "iv:cipherText"',
+        );
+      }
+
+      const decrypted = await crypto.webcrypto.subtle.decrypt(
+        { name: CRYPTO_CONSTANTS.ALGORITHM.CIPHER, iv: Buffer.from(iv, "base64") },
+        await this.importKey(rawKey),
+        Buffer.from(cipherText, "base64"),
+      );
+
+      return Buffer.from(decrypted).toString("utf8");
+    } catch (error) {
+      ErrorHandler.captureError(error, "decryptWithRawKey", "Failed to decrypt value");
+      throw error;
+    }
+  }
+
+  /**
+   * Derives the key that encrypts the data keys of environment file snapshots from a stage
+   * secret key with HKDF, so snapshots need no Argon2 derivation each
+   * @param secretKey - The stage secret key
+   * @returns The 32-byte key for encryptWithRawKey and decryptWithRawKey
+   */
+  public static deriveSnapshotKey(secretKey: string): Buffer {
+    return Buffer.from(
+      crypto.hkdfSync(
+        CRYPTO_CONSTANTS.SNAPSHOT.HKDF_DIGEST,
+        Buffer.from(secretKey, "utf8"),
+        Buffer.alloc(0),
+        CRYPTO_CONSTANTS.SNAPSHOT.HKDF_INFO,
+        CRYPTO_CONFIG.BYTE_LENGTHS.SECRET_KEY,
+      ),
+    );
+  }
+
+  /**
+   * Checks whether a value is stored in the ENC2, ENC3 or ENC4 format
+   * @param value - The value to check
+   * @returns True if the value carries an encryption prefix
+   */
+  public static isEncrypted(value: string | undefined): boolean {
+    return this.getFormat(value) !== undefined;
+  }
+
+  /**
+   * Checks whether a value is stored in the ENC4 format and needs its file header to decrypt
+   * @param value - The value to check
+   * @returns True if the value takes its salt and Argon2 parameters from a file header
+   */
+  public static requiresFileHeader(value: string | undefined): boolean {
+    return this.getFormat(value) === CRYPTO_CONSTANTS.FILE_FORMAT;
+  }
+
+  /**
+   * Returns the ID of the key a value was encrypted with
+   * @param encValue - The encrypted value
+   * @returns The key ID, or undefined for values that carry none
+   */
+  public static getKeyId(encValue: string): string | undefined {
+    const { format, parts } = this.splitEncryptedValue(encValue);
+
+    if (format === CRYPTO_CONSTANTS.FORMAT) {
+      return undefined;
+    }
+    return this.parseMetadata(parts[1])[CRYPTO_CONSTANTS.METADATA.KEY_ID];
+  }
+
+  /**
+   * Parses an encrypted value into its salt, iv, cipher text, key ID and Argon2 parameters
+   * @param encValue - The encrypted value
+   * @param fileHeader - Header of the file the value was read from (required for ENC4 values)
+   * @returns The base64-encoded parts of the encrypted value
+   */
+  public static parseEncryptedValue(
+    encValue: string,
+    fileHeader?: EncryptionFileHeader,
+  ): EncryptionResult {
+    const { format, parts } = this.splitEncryptedValue(encValue);
+
+    if (format === CRYPTO_CONSTANTS.FORMAT) {
+      const [, salt, iv, cipherText] = parts;
+      return { salt, iv, cipherText };
+    }
+
+    if (format === CRYPTO_CONSTANTS.FILE_FORMAT) {
+      const [, metadataSegment, iv, cipherText] = parts;
+
+      if (!fileHeader) {
+        return ErrorHandler.logAndThrow(
+          "parseEncryptedValue",
+          `Invalid encrypted value: "${CRYPTO_CONSTANTS.FILE_FORMAT.PREFIX}" values need the encryption header of their file`,
+        );
+      }
+
+      return {
+        salt: fileHeader.salt,
+        iv,
+        cipherText,
+        keyId: this.parseMetadata(metadataSegment)[CRYPTO_CONSTANTS.METADATA.KEY_ID],
+        argon2Parameters: fileHeader.argon2Parameters,
+      };
+    }
+
+    const [, metadataSegment, salt, iv, cipherText] = parts;
+    const metadata = this.parseMetadata(metadataSegment);
+    const keyId = metadata[CRYPTO_CONSTANTS.METADATA.KEY_ID];
+    const argon2Parameters = this.parseArgon2Parameters(metadata);
+    return { salt, iv, cipherText, keyId, argon2Parameters };
+  }
+
+  /**
+   * Creates a file header with a fresh salt, shared by every ENC4 value of the file
+   * @param argon2Parameters - The Argon2 cost parameters for the file
+   * @returns The new file header
+   */
+  public static createFileHeader(argon2Parameters: Argon2Config): EncryptionFileHeader {
+    return {
+      salt: crypto.randomBytes(CRYPTO_CONFIG.BYTE_LENGTHS.SALT).toString("base64"),
+      argon2Parameters,
+    };
+  }
+
+  /**
+   * Formats a file header as the reserved comment line of an environment file
+   * @param fileHeader - The file header
+   * @returns "# ENC-HEADER:s=<salt>;m=<memory>;t=<time>;p=<parallelism>"
+   */
+  public static formatFileHeader(fileHeader: EncryptionFileHeader): string {
+    const { SALT, MEMORY_COST, TIME_COST, PARALLELISM } = CRYPTO_CONSTANTS.METADATA;
+    const { argon2Parameters } = fileHeader;
+
+    return `${CRYPTO_CONSTANTS.FILE_HEADER.PREFIX}${this.formatMetadata({
+      [SALT]: fileHeader.salt,
+      [MEMORY_COST]: String(argon2Parameters.MEMORY_COST),
+      [TIME_COST]: String(argon2Parameters.TIME_COST),
+      [PARALLELISM]: String(argon2Parameters.PARALLELISM),
+    })}`;
+  }
+
+  /**
+   * Parses the reserved header line of an environment file
+   * @param line - The line to parse
+   * @returns The file header, or undefined if the line is not a file header
+   * @throws Error if the line is a file header with a missing salt or malformed parameters
+   */
+  public static parseFileHeader(line: string): EncryptionFileHeader | undefined {
+    const trimmedLine = line.trim();
+
+    if (!trimmedLine.startsWith(CRYPTO_CONSTANTS.FILE_HEADER.PREFIX)) {
+      return undefined;
+    }
+
+    const metadata = this.parseMetadata(
+      trimmedLine.substring(CRYPTO_CONSTANTS.FILE_HEADER.PREFIX.length),
+    );
+    const salt = metadata[CRYPTO_CONSTANTS.METADATA.SALT];
+    const argon2Parameters = this.parseArgon2Parameters(metadata);
+
+    if (!salt || !argon2Parameters) {
+      return ErrorHandler.logAndThrow(
+        "parseFileHeader",
+        "Invalid encryption file header: expected a salt and Argon2 parameters",
+      );
+    }
+
+    return { salt, argon2Parameters };
+  }
+
+  // Private methods
+
+  /**
+   * Splits an encrypted value into its parts and validates them against its format
+   * @param encValue - The encrypted value
+   * @returns The format of the value and its parts, including the prefix
+   */
+  private static splitEncryptedValue(encValue: string): {
+    format: EncryptionFormat;
+    parts: string[];
+  } {
+    const format = this.getFormat(encValue);
+
+    if (!format) {
+      return ErrorHandler.logAndThrow(
+        "parseEncryptedValue",
+        `Invalid encrypted value: expected prefix ${this.getFormats()
+          .map((candidate) => `"${candidate.PREFIX}"`)
+          .join(", ")}`,
+      );
+    }
+
+    const parts = encValue.split(format.SEPARATOR);
+    // ENC4 values without a key ID have an empty metadata segment
+    const isMissingPart = (part: string, index: number) =>
+      !part && !(format === CRYPTO_CONSTANTS.FILE_FORMAT && index === 1);
+
+    if (parts.length !== format.EXPECTED_PARTS || parts.some(isMissingPart)) {
+      ErrorHandler.logAndThrow(
+        "parseEncryptedValue",
+        `Invalid encrypted value: expected ${format.EXPECTED_PARTS} parts, got ${parts.length}`,
+      );
+    }
+
+    return { format, parts };
+  }
+
+  /**
+   * Encrypts a plain text value with a derived key and a freshly generated iv
+   * @param plainText - The value to encrypt
+   * @param key - The derived WebCrypto key
+   * @returns Promise resolving to the base64-encoded iv and cipher text
+   */
+  private static async encryptWithKey(
+    plainText: string,
+    key: crypto.webcrypto.CryptoKey,
+  ): Promise<{ iv: string; cipherText: string }> {
+    const iv = crypto.randomBytes(CRYPTO_CONFIG.BYTE_LENGTHS.WEB_CRYPTO_IV);
+
+    const encrypted = await crypto.webcrypto.subtle.encrypt(
+      { name: CRYPTO_CONSTANTS.ALGORITHM.CIPHER, iv },
+      key,
+      Buffer.from(plainText, "utf8"),
+    );
+
+    return {
+      iv: iv.toString("base64"),
+      cipherText: Buffer.from(encrypted).toString("base64"),
+    };
+  }
+
+  /**
+   * Derives a WebCrypto key through the derived-key cache
+   * @param secretKey - The secret key to derive from
+   * @param salt - The salt for the derivation
+   * @param argon2Parameters - The Argon2 cost parameters
+   * @returns Promise resolving to a WebCrypto key
+   */
+  private static async getDerivedKey(
+    secretKey: string,
+    salt: Buffer,
+    argon2Parameters: Argon2Config,
+  ): Promise<crypto.webcrypto.CryptoKey> {
+    const derivedKey = await DerivedKeyCache.getOrDerive(secretKey, salt, argon2Parameters, () =>
+      this.deriveKeyBytes(secretKey, salt, argon2Parameters),
+    );
+    return this.importKey(derivedKey);
+  }
+
+  /**
+   * Derives raw AES-GCM key material from the secret key using Argon2id
+   * @param secretKey - The secret key to derive from
+   * @param salt - The salt for the derivation
+   * @param argon2Parameters - The Argon2 cost parameters
+   * @returns Promise resolving to the raw derived key
+   */
+  private static async deriveKeyBytes(
+    secretKey: string,
+    salt: Buffer,
+    argon2Parameters: Argon2Config,
+  ): Promise<Buffer> {
+    return argon2.hash(secretKey, {
+      type: argon2.argon2id,
+      raw: true,
+      salt,
+      hashLength: CRYPTO_CONFIG.BYTE_LENGTHS.SECRET_KEY,
+      memoryCost: argon2Parameters.MEMORY_COST,
+      timeCost: argon2Parameters.TIME_COST,
+      parallelism: argon2Parameters.PARALLELISM,
+    });
+  }
+
+  /**
+   * Imports raw key material as a non-extractable WebCrypto AES-GCM key
+   * @param derivedKey - The raw derived key
+   * @returns Promise resolving to a WebCrypto key
+   */
+  private static async importKey(derivedKey: Buffer): Promise<crypto.webcrypto.CryptoKey> {
+    return crypto.webcrypto.subtle.importKey(
+      "raw",
+      derivedKey,
+      { name: CRYPTO_CONSTANTS.ALGORITHM.CIPHER },
+      false,
+      CRYPTO_CONSTANTS.ALGORITHM.KEY_USAGE,
+    );
+  }
+
+  /**
+   * Formats the encryption parts into the ENC3 format
+   * @param result - The base64-encoded encryption parts with their key ID and Argon2 parameters
+   * @returns The formatted encrypted value
+   */
+  private static formatEncryptedValue(result: EncryptionResult): string {
+    const { KEY_ID, MEMORY_COST, TIME_COST, PARALLELISM } = CRYPTO_CONSTANTS.METADATA;
+    const entries: Record<string, string> = {};
+
+    if (result.keyId) {
+      entries[KEY_ID] = result.keyId;
+    }
+
+    if (result.argon2Parameters) {
+      entries[MEMORY_COST] = String(result.argon2Parameters.MEMORY_COST);
+      entries[TIME_COST] = String(result.argon2Parameters.TIME_COST);
+      entries[PARALLELISM] = String(result.argon2Parameters.PARALLELISM);
+    }
+
+    const { SEPARATOR, PREFIX } = CRYPTO_CONSTANTS.VERSIONED_FORMAT;
+    const parts = [this.formatMetadata(entries), result.salt, result.iv, result.cipherText];
+    return `${PREFIX}${parts.join(SEPARATOR)}`;
+  }
+
+  /**
+   * Formats an iv and cipher text into the ENC4 format
+   * @param iv - The base64-encoded iv
+   * @param cipherText - The base64-encoded cipher text
+   * @param keyId - ID of the key ring entry the value was encrypted with, if any
+   * @returns The formatted encrypted value
+   */
+  private static formatFileEncryptedValue(iv: string, cipherText: string, keyId?: string): string {
+    const { SEPARATOR, PREFIX } = CRYPTO_CONSTANTS.FILE_FORMAT;
+    const metadata = this.formatMetadata(
+      keyId ? { [CRYPTO_CONSTANTS.METADATA.KEY_ID]: keyId } : {},
+    );
+
+    return `${PREFIX}${[metadata, iv, cipherText].join(SEPARATOR)}`;
+  }
+
+  /**
+   * Reads the Argon2 parameters recorded in ENC3 metadata or a file header
+   * @param metadata - The parsed metadata entries
+   * @returns The recorded parameters, or undefined if the value does not record them
+   */
+  private static parseArgon2Parameters(metadata: Record<string, string>): Argon2Config | undefined {
+    const { MEMORY_COST, TIME_COST, PARALLELISM } = CRYPTO_CONSTANTS.METADATA;
+    const values = [metadata[MEMORY_COST], metadata[TIME_COST], metadata[PARALLELISM]];
+
+    if (values.every((value) => value === undefined)) {
+      return undefined;
+    }
+
+    const [memoryCost, timeCost, parallelism] = values.map((value) => Number(value));
+
+    if (
+      ![memoryCost, timeCost, parallelism].every((value) => Number.isInteger(value) && value > 0)
+    ) {
+      return ErrorHandler.logAndThrow(
+        "parseArgon2Parameters",
+        "Invalid encrypted value: malformed Argon2 parameters in metadata",
+      );
+    }
+
+    return { MEMORY_COST: memoryCost, TIME_COST: timeCost, PARALLELISM: parallelism };
+  }
+
+  /**
+   * Lists the supported storage formats
+   * @returns The encrypted value formats
+   */
+  private static getFormats(): EncryptionFormat[] {
+    return [
+      CRYPTO_CONSTANTS.FORMAT,
+      CRYPTO_CONSTANTS.VERSIONED_FORMAT,
+      CRYPTO_CONSTANTS.FILE_FORMAT,
+    ];
+  }
+
+  /**
+   * Resolves the storage format of a value from its prefix
+   * @param value - The value to inspect
+   * @returns The matching format, or undefined if the value is not encrypted
+   */
+  private static getFormat(value: string | undefined): EncryptionFormat | undefined {
+    if (typeof value !== "string") {
+      return undefined;
+    }
+
+    return this.getFormats().find((format) => value.startsWith(format.PREFIX));
+  }
+
+  /**
+   * Formats metadata as "key=value" pairs
+   * @param metadata - The metadata entries
+   * @returns The formatted metadata segment
+   */
+  private static formatMetadata(metadata: Record<string, string>): string {
+    const { SEPARATOR, ASSIGNMENT } = CRYPTO_CONSTANTS.METADATA;
+    return Object.entries(metadata)
+      .map(([key, value]) => `${key}${ASSIGNMENT}${value}`)
+      .join(SEPARATOR);
+  }
+
+  /**
+   * Parses a metadata segment into its entries
+   * @param metadata - The metadata segment
+   * @returns The metadata entries
+   */
+  private static parseMetadata(metadata: string): Record<string, string> {
+    const { SEPARATOR, ASSIGNMENT } = CRYPTO_CONSTANTS.METADATA;
+    const entries: Record<string, string> = {};
+
+    for (const entry of metadata.split(SEPARATOR)) {
+      const assignmentIndex = entry.indexOf(ASSIGNMENT);
+      if (assignmentIndex > 0) {
+        entries[entry.substring(0, assignmentIndex)] = entry.substring(assignmentIndex + 1);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Validates that a usable secret key was provided
+   * @param secretKey - The secret key to validate
+   */
+  private static validateSecretKey(secretKey: string): void {
+    if (!secretKey || secretKey.trim() === "") {
+      ErrorHandler.logAndThrow("validateSecretKey", "Secret key is required for encryption");
+    }
+
+    if (secretKey.length < CRYPTO_CONFIG.VALIDATION_LIMITS.MIN_SECURE_LENGTH) {
+      ErrorHandler.logAndThrow(
+        "validateSecretKey",
+        `Secret key must be at least ${CRYPTO_CONFIG.VALIDATION_LIMITS.MIN_SECURE_LENGTH} characters long`,
+      );
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import * as crypto from "crypto";
+import { CRYPTO_CONFIG, CRYPTO_CONSTANTS } from "../types/crypto.config";
+import ErrorHandler from "../../utils/errorHandling/errorHandler";
+
+export default class IntegrityService {
+  /**
+   * Computes an HMAC over the normalized key/value pairs of an environment file,
+   * keyed by a subkey derived from the stage secret key
+   * @param variables - The environment variables to sign
+   * @param secretKey - The stage secret key
+   * @returns The base64-encoded HMAC signature
+   */
+  public static sign(variables: Record<string, string>, secretKey: string): string {
+    try {
+      return crypto
+        .createHmac(CRYPTO_CONSTANTS.INTEGRITY.HMAC_ALGORITHM, this.deriveHmacKey(secretKey))
+        .update(this.normalize(variables), "utf8")
+        .digest("base64");
+    } catch (error) {
+      ErrorHandler.captureError(error, "sign", "Failed to compute integrity signature");
+      throw error;
+    }
+  }
+
+  /**
+   * Verifies an HMAC signature over the key/value pairs of an environment file
+   * @param variables - The environment variables to verify
+   * @param secretKey - The stage secret key
+   * @param signature - The base64-encoded signature to compare against
+   * @returns True if the signature matches the variables
+   */
+  public static verify(
+    variables: Record<string, string>,
+    secretKey: string,
+    signature: string,
+  ): boolean {
+    const expected = Buffer.from(this.sign(variables, secretKey), "base64");
+    const actual = Buffer.from(signature, "base64");
+
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  // Private methods
+
+  /**
+   * Derives the HMAC subkey from the stage secret key with HKDF, so the
+   * encryption key itself is never used for signing
+   * @param secretKey - The stage secret key
+   * @returns The HMAC key
+   */
+  private static deriveHmacKey(secretKey: string): Buffer {
+    return Buffer.from(
+      crypto.hkdfSync(
+        CRYPTO_CONSTANTS.INTEGRITY.HKDF_DIGEST,
+        Buffer.from(secretKey, "utf8"),
+        Buffer.alloc(0),
+        CRYPTO_CONSTANTS.INTEGRITY.HKDF_INFO,
+        CRYPTO_CONFIG.BYTE_LENGTHS.HMAC_KEY_LENGTH,
+      ),
+    );
+  }
+
+  /**
+   * Normalizes variables into a canonical form: sorted by key, one JSON-encoded pair per line,
+   * so comments, blank lines and ordering do not affect the signature
+   * @param variables - The environment variables
+   * @returns The canonical representation
+   */
+  private static normalize(variables: Record<string, string>): string {
+    return Object.keys(variables)
+      .sort()
+      .map((key) => JSON.stringify([key, variables[key]]))
+      .join("\n");
+  }
+}
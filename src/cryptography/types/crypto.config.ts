@@ -3,6 +3,10 @@ import type {
   EncryptionFormat,
   CryptoAlgorithm,
   CryptoValidation,
+  EncryptionMetadataFormat,
+  EncryptionHeaderFormat,
+  CryptoIntegrity,
+  CryptoSnapshot,
 } from "./crypto.types";
 
 export const OUTPUT_FORMAT = {
@@ -26,11 +30,33 @@ export const CRYPTO_CONFIG: CryptoConfig = {
     SECRET_KEY: 32,
     HMAC_KEY_LENGTH: 32,
   },
+  // Used for values that do not record their own parameters (ENC2)
   ARGON2_PARAMETERS: {
     MEMORY_COST: 262144, // 256 MB
     TIME_COST: 4,
     PARALLELISM: 3,
   },
+  ARGON2_PROFILES: {
+    interactive: {
+      MEMORY_COST: 19456, // 19 MB
+      TIME_COST: 2,
+      PARALLELISM: 1,
+    },
+    moderate: {
+      MEMORY_COST: 65536, // 64 MB
+      TIME_COST: 3,
+      PARALLELISM: 1,
+    },
+    sensitive: {
+      MEMORY_COST: 262144, // 256 MB
+      TIME_COST: 4,
+      PARALLELISM: 3,
+    },
+  },
+  DERIVED_KEY_CACHE: {
+    MAX_ENTRIES: 256,
+    TTL_MS: 15 * 60 * 1000, // 15 minutes
+  },
   VALIDATION_LIMITS: {
     MAX_REASONABLE_LENGTH: 4096,
     MIN_SECURE_LENGTH: 8,
@@ -44,6 +70,42 @@ export const CRYPTO_CONSTANTS = {
     EXPECTED_PARTS: 4,
     PREFIX_LENGTH: 4,
   } as EncryptionFormat,
+  VERSIONED_FORMAT: {
+    PREFIX: "ENC3:",
+    SEPARATOR: ":",
+    EXPECTED_PARTS: 5,
+    PREFIX_LENGTH: 4,
+  } as EncryptionFormat,
+  // Values that take their salt and Argon2 parameters from the file header
+  FILE_FORMAT: {
+    PREFIX: "ENC4:",
+    SEPARATOR: ":",
+    EXPECTED_PARTS: 4,
+    PREFIX_LENGTH: 4,
+  } as EncryptionFormat,
+  FILE_HEADER: {
+    PREFIX: "# ENC-HEADER:",
+  } as EncryptionHeaderFormat,
+  METADATA: {
+    SEPARATOR: ";",
+    ASSIGNMENT: "=",
+    KEY_ID: "kid",
+    SALT: "s",
+    MEMORY_COST: "m",
+    TIME_COST: "t",
+    PARALLELISM: "p",
+  } as EncryptionMetadataFormat,
+  INTEGRITY: {
+    HMAC_ALGORITHM: "sha256",
+    HKDF_DIGEST: "sha256",
+    HKDF_INFO: "env-integrity-manifest",
+    MANIFEST_VERSION: 1,
+  } as CryptoIntegrity,
+  SNAPSHOT: {
+    HKDF_DIGEST: "sha256",
+    HKDF_INFO: "env-history-snapshot",
+    SNAPSHOT_VERSION: 3,
+  } as CryptoSnapshot,
   ALGORITHM: {
     CIPHER: "AES-GCM",
     KEY_USAGE: ["encrypt", "decrypt"] as KeyUsage[],
@@ -33,6 +33,26 @@ export interface Argon2Config {
   PARALLELISM: number;
 }
 
+/**
+ * Named Argon2 cost profiles, from fast local runs to production secrets
+ */
+export type Argon2ProfileName = "interactive" | "moderate" | "sensitive";
+
+export interface DerivedKeyCacheConfig {
+  MAX_ENTRIES: number;
+  TTL_MS: number;
+}
+
+/**
+ * Hit, miss and eviction counters of the derived-key cache
+ */
+export interface DerivedKeyCacheStats {
+  size: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
 export interface ValidationLimits {
   MAX_REASONABLE_LENGTH: number;
   MIN_SECURE_LENGTH: number;
@@ -44,6 +64,8 @@ export interface ValidationLimits {
 export interface CryptoConfig {
   BYTE_LENGTHS: CryptoByteLengths;
   ARGON2_PARAMETERS: Argon2Config;
+  ARGON2_PROFILES: Record<Argon2ProfileName, Argon2Config>;
+  DERIVED_KEY_CACHE: DerivedKeyCacheConfig;
   VALIDATION_LIMITS: ValidationLimits;
 }
 
@@ -54,6 +76,26 @@ export interface EncryptionResult {
   salt: string;
   iv: string;
   cipherText: string;
+  keyId?: string;
+  argon2Parameters?: Argon2Config;
+}
+
+/**
+ * Options for encrypting a single value
+ */
+export interface EncryptionOptions {
+  keyId?: string;
+  argon2Parameters?: Argon2Config;
+  fileHeader?: EncryptionFileHeader;
+}
+
+/**
+ * Salt and Argon2 parameters shared by every ENC4 value of an environment file,
+ * stored in the file's reserved header line
+ */
+export interface EncryptionFileHeader {
+  salt: string;
+  argon2Parameters: Argon2Config;
 }
 
 export interface EncryptionFormat {
@@ -63,6 +105,33 @@ export interface EncryptionFormat {
   PREFIX_LENGTH: number;
 }
 
+export interface EncryptionMetadataFormat {
+  SEPARATOR: string;
+  ASSIGNMENT: string;
+  KEY_ID: string;
+  SALT: string;
+  MEMORY_COST: string;
+  TIME_COST: string;
+  PARALLELISM: string;
+}
+
+export interface EncryptionHeaderFormat {
+  PREFIX: string;
+}
+
+export interface CryptoIntegrity {
+  HMAC_ALGORITHM: string;
+  HKDF_DIGEST: string;
+  HKDF_INFO: string;
+  MANIFEST_VERSION: number;
+}
+
+export interface CryptoSnapshot {
+  HKDF_DIGEST: string;
+  HKDF_INFO: string;
+  SNAPSHOT_VERSION: number;
+}
+
 export interface CryptoAlgorithm {
   CIPHER: string;
   KEY_USAGE: KeyUsage[];
@@ -71,3 +140,37 @@ export interface CryptoAlgorithm {
 export interface CryptoValidation {
   ENV_VAR_KEY_PATTERN: RegExp;
 }
+
+/**
+ * Selects the variables of a stage file to encrypt: an explicit list of
+ * variable names, a regular expression matched against keys, or "all"
+ */
+export type VariableSelection = string[] | RegExp | "all";
+
+/**
+ * Outcome of a stage-wide encryption run
+ */
+export interface EncryptionSummary {
+  encrypted: string[];
+  skipped: string[];
+  failed: string[];
+}
+
+/**
+ * Outcome of a stage secret key rotation
+ */
+export interface KeyRotationResult {
+  stage: string;
+  keyName: string;
+  previousKeyName: string;
+  keyId?: string;
+  reEncryptedVariables: string[];
+}
+
+/**
+ * Versioned secret keys of a single stage, keyed by key ID (e.g. "V1", "V2")
+ */
+export interface StageKeyRing {
+  activeKeyId?: string;
+  keys: Record<string, string>;
+}
@@ -2,6 +2,7 @@ import BaseFileManager from "./internal/baseFileManager";
 import path from "path";
 import fs from "fs";
 import { FileEncoding } from "./internal/file-encoding.enum";
+import type { FileWriteOptions } from "./internal/File-manager.types";
 import ErrorHandler from "../errorHandling/errorHandler";
 import logger from "../logger/loggerManager";
 
@@ -97,12 +98,14 @@ export class AsyncFileManager extends BaseFileManager {
 
   /**
    * Writes content to a file with improved error handling
+   * @param options - Optional atomic write and backup settings
    */
   public static async writeFile(
     filePath: string,
     content: string,
     keyName: string,
     encoding: FileEncoding = FileEncoding.UTF8,
+    options: FileWriteOptions = {},
   ): Promise<void> {
     const normalizedPath = this.normalize(filePath);
 
@@ -118,7 +121,11 @@ export class AsyncFileManager extends BaseFileManager {
       const dirPath = path.dirname(normalizedPath);
       await this.createDirectory(dirPath);
 
-      await fs.promises.writeFile(normalizedPath, content, { encoding });
+      if (options.atomic) {
+        await this.writeFileAtomically(normalizedPath, content, encoding, options.backup);
+      } else {
+        await fs.promises.writeFile(normalizedPath, content, { encoding });
+      }
 
       logger.debug(`Successfully wrote file: ${this.resolve(normalizedPath)}`);
     } catch (error) {
@@ -147,6 +154,26 @@ export class AsyncFileManager extends BaseFileManager {
     }
   }
 
+  /**
+   * Lists the names of the files in a directory, or an empty list if it does not exist
+   */
+  public static async listFiles(dirPath: string): Promise<string[]> {
+    const normalizedPath = this.normalize(dirPath);
+    this.validate(normalizedPath, "dirPath");
+
+    try {
+      if (!(await this.doesDirectoryExist(normalizedPath))) {
+        return [];
+      }
+
+      const entries = await fs.promises.readdir(normalizedPath, { withFileTypes: true });
+      return entries.filter((entry) => entry.isFile()).map((entry) => entry.name);
+    } catch (error) {
+      ErrorHandler.captureError(error, "listFiles", `Failed to list directory: ${normalizedPath}`);
+      throw error;
+    }
+  }
+
   /**
    * Deletes a file
    */
@@ -224,4 +251,54 @@ export class AsyncFileManager extends BaseFileManager {
       return false;
     }
   }
+
+  /**
+   * Writes to a temp file in the target's directory, fsyncs it and renames it over the
+   * target, so a crash leaves either the old or the new content but never a partial file
+   */
+  private static async writeFileAtomically(
+    filePath: string,
+    content: string,
+    encoding: FileEncoding,
+    backup = false,
+  ): Promise<void> {
+    const tempPath = this.getTempFilePath(filePath);
+    const existingStats = await fs.promises.stat(filePath).catch(() => undefined);
+
+    try {
+      const handle = await fs.promises.open(tempPath, "w", existingStats?.mode);
+      try {
+        await handle.writeFile(content, { encoding });
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+
+      if (backup && existingStats) {
+        await fs.promises.copyFile(filePath, this.getBackupFilePath(filePath));
+      }
+
+      await fs.promises.rename(tempPath, filePath);
+      await this.syncDirectory(path.dirname(filePath));
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Flushes a directory entry so a rename survives a crash; not supported on every platform
+   */
+  private static async syncDirectory(dirPath: string): Promise<void> {
+    try {
+      const handle = await fs.promises.open(dirPath, "r");
+      try {
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+    } catch {
+      // Directories cannot be opened for syncing on Windows
+    }
+  }
 }
@@ -0,0 +1,257 @@
+import { AsyncLocalStorage } from "async_hooks";
+import path from "path";
+import fs from "fs";
+import * as crypto from "crypto";
+import BaseFileManager from "./internal/baseFileManager";
+import type { FileLockInfo, FileLockOptions } from "./internal/File-manager.types";
+import ErrorHandler from "../errorHandling/errorHandler";
+import logger from "../logger/loggerManager";
+
+export class FileLockManager extends BaseFileManager {
+  private static readonly LOCK_FILE_SUFFIX = ".lock";
+
+  private static readonly DEFAULT_OPTIONS: Required<FileLockOptions> = {
+    timeoutMs: 10_000,
+    staleMs: 30_000,
+    retryDelayMs: 25,
+    maxRetryDelayMs: 500,
+  };
+
+  // Lock files held by the current async call chain, so nested calls on the same file re-enter
+  private static readonly heldLocks = new AsyncLocalStorage<ReadonlySet<string>>();
+
+  /**
+   * Runs an operation while holding an on-disk lock file next to the target file. The lock
+   * excludes other processes as well as other operations in this process; nested calls on the
+   * same file from within the operation re-enter the held lock.
+   * @param filePath - Path to the file being protected
+   * @param operation - The async operation to execute under the lock
+   * @param options - Optional timeout, stale-lock age and retry backoff settings
+   * @returns Promise resolving to the operation result
+   * @throws Error if the lock cannot be acquired within the timeout
+   */
+  public static async withLock<T>(
+    filePath: string,
+    operation: () => Promise<T>,
+    options: FileLockOptions = {},
+  ): Promise<T> {
+    const lockPath = this.getLockPath(filePath);
+    const heldLocks = this.heldLocks.getStore() ?? new Set<string>();
+
+    if (heldLocks.has(lockPath)) {
+      return operation();
+    }
+
+    await this.acquire(lockPath, { ...this.DEFAULT_OPTIONS, ...options });
+
+    try {
+      return await this.heldLocks.run(new Set([...heldLocks, lockPath]), operation);
+    } finally {
+      await this.release(lockPath);
+    }
+  }
+
+  /**
+   * Waits until no other owner holds the lock of a file, without acquiring it. Used before
+   * reads so they do not observe a write in progress.
+   * @param filePath - Path to the file being read
+   * @param options - Optional timeout, stale-lock age and retry backoff settings
+   * @throws Error if the lock is still held when the timeout expires
+   */
+  public static async waitForUnlock(
+    filePath: string,
+    options: FileLockOptions = {},
+  ): Promise<void> {
+    const lockPath = this.getLockPath(filePath);
+
+    if (this.heldLocks.getStore()?.has(lockPath)) {
+      return;
+    }
+
+    await this.waitForRelease(lockPath, { ...this.DEFAULT_OPTIONS, ...options }, () =>
+      this.readLockInfo(lockPath).then((owner) => owner === undefined),
+    );
+  }
+
+  /**
+   * Resolves the lock file path of a file
+   * @param filePath - Path to the file being protected
+   * @returns The lock file path
+   */
+  public static getLockPath(filePath: string): string {
+    return `${this.normalize(filePath)}${this.LOCK_FILE_SUFFIX}`;
+  }
+
+  // Private methods
+
+  /**
+   * Creates the lock file, waiting while another owner holds it
+   * @param lockPath - The lock file path
+   * @param options - The resolved lock options
+   */
+  private static async acquire(
+    lockPath: string,
+    options: Required<FileLockOptions>,
+  ): Promise<void> {
+    await fs.promises.mkdir(path.dirname(lockPath), { recursive: true });
+    await this.waitForRelease(lockPath, options, () => this.tryCreateLockFile(lockPath));
+  }
+
+  /**
+   * Retries an attempt with exponential backoff until it succeeds, taking the lock file over
+   * when its owner has exited or it is older than the stale age
+   * @param lockPath - The lock file path
+   * @param options - The resolved lock options
+   * @param attempt - Resolves to true once the caller may proceed
+   * @throws Error if the attempt has not succeeded when the timeout expires
+   */
+  private static async waitForRelease(
+    lockPath: string,
+    options: Required<FileLockOptions>,
+    attempt: () => Promise<boolean>,
+  ): Promise<void> {
+    const deadline = Date.now() + options.timeoutMs;
+    let retryDelay = options.retryDelayMs;
+
+    while (true) {
+      if (await attempt()) {
+        return;
+      }
+
+      const owner = await this.readLockInfo(lockPath);
+
+      if (owner && this.isStale(owner, options.staleMs)) {
+        await this.removeStaleLock(lockPath, options.staleMs);
+        continue;
+      }
+
+      if (Date.now() + retryDelay > deadline) {
+        ErrorHandler.logAndThrow(
+          "FileLockManager.waitForRelease",
+          `Timed out after ${options.timeoutMs}ms waiting for lock "${lockPath}"` +
+            (owner ? ` held by process ${owner.pid}` : ""),
+        );
+      }
+
+      logger.debug(`Waiting ${retryDelay}ms for lock "${lockPath}"`);
+      await new Promise((resolve) => setTimeout(resolve, retryDelay + Math.random() * retryDelay));
+      retryDelay = Math.min(retryDelay * 2, options.maxRetryDelayMs);
+    }
+  }
+
+  /**
+   * Takes a stale lock file over by renaming it to a name unique to this attempt, then checks
+   * the owner of the file actually moved. Another waiter may have removed the stale lock and
+   * created a fresh one after its owner was read; a live lock moved by mistake is put back
+   * instead of being deleted.
+   * @param lockPath - The lock file path
+   * @param staleMs - Age after which a lock is considered stale
+   */
+  private static async removeStaleLock(lockPath: string, staleMs: number): Promise<void> {
+    const takeoverPath = `${lockPath}.${process.pid}.${crypto.randomUUID()}.stale`;
+
+    try {
+      await fs.promises.rename(lockPath, takeoverPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        // Another waiter took the lock over first
+        return;
+      }
+      ErrorHandler.captureError(error, "removeStaleLock", `Failed to take over lock "${lockPath}"`);
+      throw error;
+    }
+
+    const owner = await this.readLockInfo(takeoverPath);
+
+    if (!owner || this.isStale(owner, staleMs)) {
+      if (owner) {
+        logger.warn(
+          `Removed stale lock "${lockPath}" held by process ${owner.pid} since ${new Date(owner.acquiredAt).toISOString()}`,
+        );
+      }
+      await fs.promises.rm(takeoverPath, { force: true });
+      return;
+    }
+
+    try {
+      // Linking fails instead of overwriting if yet another lock was created in the meantime
+      await fs.promises.link(takeoverPath, lockPath);
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        "removeStaleLock",
+        `Failed to restore live lock "${lockPath}" of process ${owner.pid}`,
+      );
+      throw error;
+    } finally {
+      await fs.promises.rm(takeoverPath, { force: true });
+    }
+  }
+
+  /**
+   * Atomically creates the lock file with this process as its owner
+   * @param lockPath - The lock file path
+   * @returns Promise resolving to true if the lock was created, false if it already exists
+   */
+  private static async tryCreateLockFile(lockPath: string): Promise<boolean> {
+    const lockInfo: FileLockInfo = { pid: process.pid, acquiredAt: Date.now() };
+
+    try {
+      await fs.promises.writeFile(lockPath, JSON.stringify(lockInfo), { flag: "wx" });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+        return false;
+      }
+      ErrorHandler.captureError(error, "tryCreateLockFile", `Failed to create lock "${lockPath}"`);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the owner of a lock file
+   * @param lockPath - The lock file path
+   * @returns Promise resolving to the owner, or undefined if the lock file is gone or unreadable
+   */
+  private static async readLockInfo(lockPath: string): Promise<FileLockInfo | undefined> {
+    try {
+      const content = await fs.promises.readFile(lockPath, "utf8");
+      return JSON.parse(content) as FileLockInfo;
+    } catch {
+      // The owner released the lock, or is still writing it
+      return undefined;
+    }
+  }
+
+  /**
+   * Checks whether a lock was left behind by an exited process or has outlived the stale age
+   * @param owner - The lock owner
+   * @param staleMs - Age after which a lock is considered stale
+   * @returns True if the lock can be removed
+   */
+  private static isStale(owner: FileLockInfo, staleMs: number): boolean {
+    if (Date.now() - owner.acquiredAt > staleMs) {
+      return true;
+    }
+
+    try {
+      // Signal 0 only checks that the process exists
+      process.kill(owner.pid, 0);
+      return false;
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === "ESRCH";
+    }
+  }
+
+  /**
+   * Removes the lock file
+   * @param lockPath - The lock file path
+   */
+  private static async release(lockPath: string): Promise<void> {
+    try {
+      await fs.promises.rm(lockPath, { force: true });
+    } catch (error) {
+      ErrorHandler.captureError(error, "release", `Failed to release lock "${lockPath}"`);
+    }
+  }
+}
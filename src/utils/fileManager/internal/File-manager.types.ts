@@ -15,3 +15,31 @@ export interface FileOperationOptions {
   overwrite?: boolean;
   createParentDirs?: boolean;
 }
+
+/**
+ * Options for acquiring a cross-process file lock
+ */
+export interface FileLockOptions {
+  timeoutMs?: number;
+  staleMs?: number;
+  retryDelayMs?: number;
+  maxRetryDelayMs?: number;
+}
+
+/**
+ * Owner information written into a lock file
+ */
+export interface FileLockInfo {
+  pid: number;
+  acquiredAt: number;
+}
+
+/**
+ * Options for writing a file
+ */
+export interface FileWriteOptions {
+  /** Writes to a temp file in the same directory, fsyncs it, then renames it over the target */
+  atomic?: boolean;
+  /** Keeps the previous version of the file as <file>.bak (atomic writes only) */
+  backup?: boolean;
+}
@@ -1,5 +1,6 @@
 import path from "path";
 import fs from "fs";
+import * as crypto from "crypto";
 import ErrorHandler from "../../errorHandling/errorHandler";
 
 export default abstract class BaseFileManager {
@@ -52,6 +53,22 @@ export default abstract class BaseFileManager {
     return modes.length > 0 ? modes.join(", ") : "unknown";
   }
 
+  /**
+   * Builds a unique temp file path in the same directory as the target, so renaming it
+   * over the target stays on one file system
+   */
+  protected static getTempFilePath(filePath: string): string {
+    const suffix = `${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+    return path.join(path.dirname(filePath), `${path.basename(filePath)}.${suffix}`);
+  }
+
+  /**
+   * Resolves the path of the backup kept by atomic writes with the backup option
+   */
+  public static getBackupFilePath(filePath: string): string {
+    return `${this.normalize(filePath)}.bak`;
+  }
+
   public static resolve(fileName: string): string {
     return path.resolve(fileName);
   }
@@ -2,6 +2,7 @@ import BaseFileManager from "./internal/baseFileManager";
 import path from "path";
 import fs from "fs";
 import { FileEncoding } from "./internal/file-encoding.enum";
+import type { FileWriteOptions } from "./internal/File-manager.types";
 import ErrorHandler from "../errorHandling/errorHandler";
 import logger from "../logger/loggerManager";
 
@@ -96,12 +97,14 @@ export class SyncFileManager extends BaseFileManager {
 
   /**
    * Writes file synchronously
+   * @param options - Optional atomic write and backup settings
    */
   public static writeFile(
     filePath: string,
     content: string,
     keyName: string,
     encoding: FileEncoding = FileEncoding.UTF8,
+    options: FileWriteOptions = {},
   ): void {
     const normalizedPath = this.normalize(filePath);
 
@@ -117,7 +120,11 @@ export class SyncFileManager extends BaseFileManager {
       const dirPath = path.dirname(normalizedPath);
       this.ensureDirectoryExists(dirPath);
 
-      fs.writeFileSync(normalizedPath, content, { encoding });
+      if (options.atomic) {
+        this.writeFileAtomically(normalizedPath, content, encoding, options.backup);
+      } else {
+        fs.writeFileSync(normalizedPath, content, { encoding });
+      }
 
       logger.debug(`Successfully wrote file: ${this.resolve(normalizedPath)}`);
     } catch (error) {
@@ -191,4 +198,54 @@ export class SyncFileManager extends BaseFileManager {
       return false;
     }
   }
+
+  /**
+   * Writes to a temp file in the target's directory, fsyncs it and renames it over the
+   * target, so a crash leaves either the old or the new content but never a partial file
+   */
+  private static writeFileAtomically(
+    filePath: string,
+    content: string,
+    encoding: FileEncoding,
+    backup = false,
+  ): void {
+    const tempPath = this.getTempFilePath(filePath);
+    const existingStats = fs.existsSync(filePath) ? fs.statSync(filePath) : undefined;
+
+    try {
+      const fd = fs.openSync(tempPath, "w", existingStats?.mode);
+      try {
+        fs.writeFileSync(fd, content, { encoding });
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+
+      if (backup && existingStats) {
+        fs.copyFileSync(filePath, this.getBackupFilePath(filePath));
+      }
+
+      fs.renameSync(tempPath, filePath);
+      this.syncDirectory(path.dirname(filePath));
+    } catch (error) {
+      fs.rmSync(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Flushes a directory entry so a rename survives a crash; not supported on every platform
+   */
+  private static syncDirectory(dirPath: string): void {
+    try {
+      const fd = fs.openSync(dirPath, "r");
+      try {
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+    } catch {
+      // Directories cannot be opened for syncing on Windows
+    }
+  }
 }
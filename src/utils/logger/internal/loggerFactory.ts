@@ -3,7 +3,9 @@ import moment from "moment-timezone";
 import path from "path";
 import * as fs from "fs";
 import { winstonLoggerConfig, LogLevel } from "./logger.config";
-import type { EnvironmentStage } from "../../../configuration/environment/constants/environment.constants";
+import EnvironmentStageResolver from "../../../configuration/environment/stages/environmentStageResolver";
+import CIContextResolver from "../../../configuration/detector/ciContextResolver";
+import { DEFAULT_ENVIRONMENT_STAGE } from "../../../configuration/environment/stages/stages.config";
 
 export default class LoggerFactory {
   private static directoryEnsured = false;
@@ -14,6 +16,7 @@ export default class LoggerFactory {
 
     return winston.createLogger({
       level: winstonLoggerConfig.logLevels.debug,
+      defaultMeta: this.createDefaultMetadata(),
       transports: [
         fileTransports.info,
         fileTransports.warn,
@@ -43,6 +46,16 @@ export default class LoggerFactory {
     this.directoryEnsured = true;
   }
 
+  /**
+   * Tags every entry with the CI provider and run of the build, so logs collected from several
+   * builds can be told apart
+   * @returns The CI provider and build ID, or no metadata outside CI
+   */
+  private static createDefaultMetadata(): Record<string, unknown> {
+    const ciContext = CIContextResolver.resolve();
+    return ciContext ? { ci: { provider: ciContext.provider, buildId: ciContext.buildId } } : {};
+  }
+
   private static createFileTransports() {
     const createTransport = this.createTransportFactory(this.createBaseTransportConfig());
     return this.createLogLevelTransports(createTransport);
@@ -108,7 +121,7 @@ export default class LoggerFactory {
 
   private static createConsoleTransport(): winston.transports.ConsoleTransportInstance {
     return new winston.transports.Console({
-      level: this.getConsoleLogLevel((process.env.ENV as EnvironmentStage) || "dev"),
+      level: this.getConsoleLogLevel(process.env.ENV),
       format: this.createConsoleFormat(),
     });
   }
@@ -143,15 +156,9 @@ export default class LoggerFactory {
     );
   }
 
-  private static getConsoleLogLevel(environment: EnvironmentStage): LogLevel {
-    const levelMap: Record<EnvironmentStage, LogLevel> = {
-      dev: winstonLoggerConfig.logLevels.debug,
-      qa: winstonLoggerConfig.logLevels.debug,
-      uat: winstonLoggerConfig.logLevels.info,
-      preprod: winstonLoggerConfig.logLevels.warn,
-      prod: winstonLoggerConfig.logLevels.error,
-    };
-    return levelMap[environment] || winstonLoggerConfig.logLevels.debug;
+  private static getConsoleLogLevel(environment: string | undefined): LogLevel {
+    const stage = EnvironmentStageResolver.resolveStage(environment) ?? DEFAULT_ENVIRONMENT_STAGE;
+    return EnvironmentStageResolver.getSettings(stage).logLevel;
   }
 
   private static levelFilter(level: LogLevel): winston.Logform.Format {
@@ -159,11 +166,19 @@ export default class LoggerFactory {
   }
 
   private static logCustomFormat(): winston.Logform.Format {
-    return winston.format.printf(({ level, message, timestamp }) => {
-      return `${timestamp} [${level}]: ${message}`;
+    return winston.format.printf(({ level, message, timestamp, ci }) => {
+      return `${timestamp} [${level}]${this.formatCITag(ci)}: ${message}`;
     });
   }
 
+  private static formatCITag(ci: unknown): string {
+    if (!ci) {
+      return "";
+    }
+    const { provider, buildId } = ci as { provider: string; buildId?: string };
+    return buildId ? ` [${provider} #${buildId}]` : ` [${provider}]`;
+  }
+
   private static logCustomFormatColored(): winston.Logform.Format {
     return winston.format.printf((info) => {
       return `${info.timestamp} [${info.level}]: ${info.message}`;
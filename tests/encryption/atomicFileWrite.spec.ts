@@ -0,0 +1,88 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import { AsyncFileManager } from "../../src/utils/fileManager/asyncFileManager";
+import { SyncFileManager } from "../../src/utils/fileManager/syncFileManager";
+import { FileEncoding } from "../../src/utils/fileManager/internal/file-encoding.enum";
+import SecretFileManager from "../../src/configuration/environment/manager/secretFileManager";
+import StagesFileManager from "../../src/configuration/environment/manager/stagesFileManager";
+import {
+  getEnvironmentPath,
+  readEnvironmentFile,
+  useTemporaryEnvironment,
+  writeEnvironmentFile,
+} from "./helpers/temporaryEnvironment";
+
+useTemporaryEnvironment();
+
+const ATOMIC_WRITE = { atomic: true, backup: true };
+
+function listEnvironmentFiles(): string[] {
+  return fs.readdirSync(getEnvironmentPath()).sort();
+}
+
+test.describe("atomic file writes", () => {
+  test("replaces a file, keeps its previous version and mode, and leaves no temp file", async () => {
+    writeEnvironmentFile(".env.qa", "PASSWORD=old\n");
+    fs.chmodSync(getEnvironmentPath(".env.qa"), 0o600);
+
+    await AsyncFileManager.writeFile(
+      getEnvironmentPath(".env.qa"),
+      "PASSWORD=new\n",
+      "qa",
+      FileEncoding.UTF8,
+      ATOMIC_WRITE,
+    );
+
+    expect(readEnvironmentFile(".env.qa")).toBe("PASSWORD=new\n");
+    expect(readEnvironmentFile(".env.qa.bak")).toBe("PASSWORD=old\n");
+    expect(fs.statSync(getEnvironmentPath(".env.qa")).mode & 0o777).toBe(0o600);
+    expect(listEnvironmentFiles()).toEqual([".env.qa", ".env.qa.bak"]);
+  });
+
+  test("writes synchronously with the same guarantees", () => {
+    writeEnvironmentFile(".env.qa", "PASSWORD=old\n");
+
+    SyncFileManager.writeFile(getEnvironmentPath(".env.qa"), "PASSWORD=new\n", "qa", FileEncoding.UTF8, ATOMIC_WRITE);
+
+    expect(readEnvironmentFile(".env.qa")).toBe("PASSWORD=new\n");
+    expect(readEnvironmentFile(".env.qa.bak")).toBe("PASSWORD=old\n");
+    expect(listEnvironmentFiles()).toEqual([".env.qa", ".env.qa.bak"]);
+  });
+
+  test("keeps no backup of a file that did not exist or without the backup option", async () => {
+    await AsyncFileManager.writeFile(getEnvironmentPath(".env.qa"), "A=1\n", "qa", FileEncoding.UTF8, ATOMIC_WRITE);
+    await AsyncFileManager.writeFile(getEnvironmentPath(".env.uat"), "A=1\n", "uat", FileEncoding.UTF8, {
+      atomic: true,
+    });
+    await AsyncFileManager.writeFile(getEnvironmentPath(".env.uat"), "A=2\n", "uat", FileEncoding.UTF8, {
+      atomic: true,
+    });
+
+    expect(listEnvironmentFiles()).toEqual([".env.qa", ".env.uat"]);
+  });
+
+  test("removes the temp file when the rename fails", async () => {
+    fs.mkdirSync(getEnvironmentPath(".env.qa"));
+
+    await expect(
+      AsyncFileManager.writeFile(getEnvironmentPath(".env.qa"), "A=1\n", "qa", FileEncoding.UTF8, { atomic: true }),
+    ).rejects.toThrow();
+    expect(() =>
+      SyncFileManager.writeFile(getEnvironmentPath(".env.qa"), "A=1\n", "qa", FileEncoding.UTF8, { atomic: true }),
+    ).toThrow();
+
+    expect(listEnvironmentFiles()).toEqual([".env.qa"]);
+  });
+
+  test("is used for every write of the secret file and stage files", async () => {
+    writeEnvironmentFile(".env.secret", "QA_SECRET_KEY=old\n");
+    writeEnvironmentFile(".env.qa", "PASSWORD=old\n");
+
+    await SecretFileManager.storeKeyInFile(getEnvironmentPath(".env.secret"), "QA_SECRET_KEY", "new");
+    await StagesFileManager.updateEnvironmentVariables(getEnvironmentPath(".env.qa"), { PASSWORD: "new" });
+
+    expect(readEnvironmentFile(".env.secret.bak")).toBe("QA_SECRET_KEY=old\n");
+    expect(readEnvironmentFile(".env.qa.bak")).toBe("PASSWORD=old\n");
+    expect(listEnvironmentFiles().filter((fileName) => fileName.endsWith(".tmp"))).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+import { test, expect } from "@playwright/test";
+import CryptoValueGenerator from "../../src/cryptography/service/cryptoValueGenerator";
+import EncryptionManager from "../../src/cryptography/manager/encryptionManager";
+import CIContextResolver from "../../src/configuration/detector/ciContextResolver";
+import EnvironmentFileManager from "../../src/configuration/environment/manager/filePath/EnvironmentFileManager";
+import LoggerFactory from "../../src/utils/logger/internal/loggerFactory";
+import {
+  getEnvironmentPath,
+  readEnvironmentFile,
+  useTemporaryEnvironment,
+  writeEnvironmentFile,
+} from "./helpers/temporaryEnvironment";
+
+useTemporaryEnvironment();
+
+/**
+ * Sets process variables for the duration of a check, then restores them
+ */
+async function withVariables(variables: Record<string, string>, check: () => unknown): Promise<void> {
+  const savedVariables = Object.fromEntries(Object.keys(variables).map((name) => [name, process.env[name]]));
+  Object.assign(process.env, variables);
+
+  try {
+    await check();
+  } finally {
+    for (const [name, value] of Object.entries(savedVariables)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  }
+}
+
+test.describe("CIContextResolver", () => {
+  test("leaves the fork status of TeamCity builds unknown unless the build declares it", async () => {
+    await withVariables({ TEAMCITY_VERSION: "2025.03", BUILD_NUMBER: "42" }, async () => {
+      expect(CIContextResolver.resolve()).toEqual({ provider: "teamcity", buildId: "42", isFork: undefined });
+
+      await withVariables({ CI_IS_FORK: "false" }, () => {
+        expect(CIContextResolver.resolve()?.isFork).toBe(false);
+      });
+    });
+  });
+
+  test("knows only Bitbucket builds outside pull requests are no fork builds", async () => {
+    await withVariables({ BITBUCKET_BUILD_NUMBER: "7" }, async () => {
+      expect(CIContextResolver.resolve()?.isFork).toBe(false);
+
+      await withVariables({ BITBUCKET_PR_ID: "12" }, () => {
+        expect(CIContextResolver.resolve()).toMatchObject({ pullRequestNumber: 12, isFork: undefined });
+      });
+    });
+  });
+
+  test("does not let CI_IS_FORK clear a fork the provider detected", async () => {
+    await withVariables(
+      { JENKINS_URL: "https://jenkins.example.com", CHANGE_FORK: "someone", CI_IS_FORK: "false" },
+      () => {
+        expect(CIContextResolver.resolve()?.isFork).toBe(true);
+      },
+    );
+  });
+
+  test("leaves the fork status unknown when the GitHub event payload cannot be read", async () => {
+    await withVariables(
+      {
+        GITHUB_ACTIONS: "true",
+        GITHUB_EVENT_NAME: "pull_request",
+        GITHUB_EVENT_PATH: getEnvironmentPath("missing-event.json"),
+        GITHUB_REF: "refs/pull/5/merge",
+      },
+      () => {
+        expect(CIContextResolver.resolve()).toMatchObject({ pullRequestNumber: 5, isFork: undefined });
+      },
+    );
+  });
+
+  test("decrypts in CI only when the fork status is known", async () => {
+    writeEnvironmentFile(".env.dev", "PASSWORD=s3cret\n");
+    await CryptoValueGenerator.generateStageSecretKey("dev");
+    await EncryptionManager.encryptStageVariables("dev", ["PASSWORD"]);
+    const secretKey = /^DEV_SECRET_KEY=(.*)$/m.exec(readEnvironmentFile(".env.secret"))![1];
+    const loadDecrypted = () => EnvironmentFileManager.getInstance().loadStageConfig("dev", { decryptValues: true });
+
+    await withVariables({ TEAMCITY_VERSION: "2025.03", DEV_SECRET_KEY: secretKey }, async () => {
+      await expect(loadDecrypted()).rejects.toThrow("Set CI_IS_FORK=false");
+
+      await withVariables({ CI_IS_FORK: "false" }, async () => {
+        expect((await loadDecrypted()).getSecret("PASSWORD")).toBe("s3cret");
+      });
+    });
+  });
+
+  test("tags log entries with the CI provider and build", async () => {
+    await withVariables({ GITHUB_ACTIONS: "true", GITHUB_RUN_ID: "1234" }, () => {
+      const logger = LoggerFactory.createLogger();
+      expect(logger.defaultMeta).toEqual({ ci: { provider: "github-actions", buildId: "1234" } });
+      logger.close();
+    });
+  });
+});
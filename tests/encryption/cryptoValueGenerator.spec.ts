@@ -0,0 +1,48 @@
+import { test, expect } from "@playwright/test";
+import CryptoValueGenerator from "../../src/cryptography/service/cryptoValueGenerator";
+import { CRYPTO_CONFIG, CRYPTO_TYPE, OUTPUT_FORMAT } from "../../src/cryptography/types/crypto.config";
+import { readEnvironmentFile, useTemporaryEnvironment } from "./helpers/temporaryEnvironment";
+
+useTemporaryEnvironment();
+
+test.describe("CryptoValueGenerator", () => {
+  test("generates each type with its default length in the requested format", () => {
+    const salt = CryptoValueGenerator.generate({ type: CRYPTO_TYPE.SALT, outputFormat: OUTPUT_FORMAT.BUFFER });
+    const iv = CryptoValueGenerator.generate({ type: CRYPTO_TYPE.IV, outputFormat: OUTPUT_FORMAT.HEX });
+    const secretKey = CryptoValueGenerator.generate({
+      type: CRYPTO_TYPE.SECRET_KEY,
+      outputFormat: OUTPUT_FORMAT.BASE64,
+    });
+
+    expect(Buffer.isBuffer(salt) && salt.length).toBe(CRYPTO_CONFIG.BYTE_LENGTHS.SALT);
+    expect(iv).toMatch(new RegExp(`^[0-9a-f]{${CRYPTO_CONFIG.BYTE_LENGTHS.IV * 2}}$`));
+    expect(Buffer.from(secretKey as string, "base64")).toHaveLength(CRYPTO_CONFIG.BYTE_LENGTHS.SECRET_KEY);
+    expect(CryptoValueGenerator.generate({ type: CRYPTO_TYPE.RANDOM, outputFormat: OUTPUT_FORMAT.BASE64 })).not.toBe(
+      secretKey,
+    );
+  });
+
+  test("accepts custom lengths within the validation limits only", () => {
+    const { MIN_SECURE_LENGTH, MAX_REASONABLE_LENGTH } = CRYPTO_CONFIG.VALIDATION_LIMITS;
+    const generate = (length: number) =>
+      CryptoValueGenerator.generate({ type: CRYPTO_TYPE.RANDOM, outputFormat: OUTPUT_FORMAT.BUFFER, length });
+
+    expect(generate(MIN_SECURE_LENGTH)).toHaveLength(MIN_SECURE_LENGTH);
+    expect(generate(MAX_REASONABLE_LENGTH)).toHaveLength(MAX_REASONABLE_LENGTH);
+    expect(() => generate(MIN_SECURE_LENGTH - 1)).toThrow(`Length must be between ${MIN_SECURE_LENGTH}`);
+    expect(() => generate(MAX_REASONABLE_LENGTH + 1)).toThrow(`Length must be between ${MIN_SECURE_LENGTH}`);
+    expect(() => generate(16.5)).toThrow("expected an integer");
+  });
+
+  test("stores a stage secret key under the stage's variable and keeps it unless told otherwise", async () => {
+    expect(await CryptoValueGenerator.generateStageSecretKey("qa")).toBe(true);
+    const firstKey = /^QA_SECRET_KEY=(.+)$/m.exec(readEnvironmentFile(".env.secret"))?.[1];
+    expect(Buffer.from(firstKey!, "base64")).toHaveLength(CRYPTO_CONFIG.BYTE_LENGTHS.SECRET_KEY);
+
+    expect(await CryptoValueGenerator.generateStageSecretKey("qa")).toBe(false);
+    expect(readEnvironmentFile(".env.secret")).toContain(`QA_SECRET_KEY=${firstKey}`);
+
+    expect(await CryptoValueGenerator.generateStageSecretKey("qa", { skipIfExists: false })).toBe(true);
+    expect(readEnvironmentFile(".env.secret")).not.toContain(`QA_SECRET_KEY=${firstKey}`);
+  });
+});
@@ -0,0 +1,102 @@
+import { test, expect } from "@playwright/test";
+import DerivedKeyCache from "../../src/cryptography/service/derivedKeyCache";
+import EncryptionService from "../../src/cryptography/service/encryptionService";
+import { CRYPTO_CONFIG } from "../../src/cryptography/types/crypto.config";
+import { encryptLegacy } from "./helpers/legacyEncryption";
+
+const SECRET_KEY = "test-secret-key-0123456789abcdef";
+const ARGON2_PARAMETERS = CRYPTO_CONFIG.ARGON2_PROFILES.interactive;
+const { MAX_ENTRIES, TTL_MS } = CRYPTO_CONFIG.DERIVED_KEY_CACHE;
+
+/**
+ * Looks up a key in the cache with a derivation that counts its calls
+ */
+async function getOrDerive(
+  derivations: { count: number },
+  salt: string,
+  options: { secretKey?: string; argon2Parameters?: typeof ARGON2_PARAMETERS } = {},
+): Promise<Buffer> {
+  return DerivedKeyCache.getOrDerive(
+    options.secretKey ?? SECRET_KEY,
+    Buffer.from(salt),
+    options.argon2Parameters ?? ARGON2_PARAMETERS,
+    async () => {
+      derivations.count++;
+      return Buffer.alloc(32, 1);
+    },
+  );
+}
+
+test.describe("DerivedKeyCache", () => {
+  test.beforeEach(() => {
+    DerivedKeyCache.clear();
+  });
+
+  test("derives once per secret key, salt and parameter set", async () => {
+    const derivations = { count: 0 };
+
+    await getOrDerive(derivations, "salt");
+    await getOrDerive(derivations, "salt");
+    expect(derivations.count).toBe(1);
+
+    await getOrDerive(derivations, "other salt");
+    await getOrDerive(derivations, "salt", { secretKey: `${SECRET_KEY}x` });
+    await getOrDerive(derivations, "salt", { argon2Parameters: { ...ARGON2_PARAMETERS, TIME_COST: 4 } });
+    expect(derivations.count).toBe(4);
+    expect(DerivedKeyCache.getStats()).toEqual({ size: 4, hits: 1, misses: 4, evictions: 0 });
+  });
+
+  test("derives again once an entry has expired and zeroes the expired key", async () => {
+    const derivations = { count: 0 };
+    const now = Date.now();
+    const expiredKey = await getOrDerive(derivations, "salt");
+
+    const originalNow = Date.now;
+    Date.now = () => now + TTL_MS + 1;
+    try {
+      await getOrDerive(derivations, "salt");
+    } finally {
+      Date.now = originalNow;
+    }
+
+    expect(derivations.count).toBe(2);
+    expect(expiredKey.every((byte) => byte === 0)).toBe(true);
+    expect(DerivedKeyCache.getStats()).toMatchObject({ size: 1, hits: 0, misses: 2 });
+  });
+
+  test("evicts the least recently used entry when full", async () => {
+    const derivations = { count: 0 };
+    for (let index = 0; index < MAX_ENTRIES; index++) {
+      await getOrDerive(derivations, `salt-${index}`);
+    }
+
+    await getOrDerive(derivations, "salt-0");
+    await getOrDerive(derivations, "salt-new");
+    expect(DerivedKeyCache.getStats()).toMatchObject({ size: MAX_ENTRIES, evictions: 1 });
+
+    await getOrDerive(derivations, "salt-0");
+    expect(derivations.count).toBe(MAX_ENTRIES + 1);
+    await getOrDerive(derivations, "salt-1");
+    expect(derivations.count).toBe(MAX_ENTRIES + 2);
+  });
+
+  test("zeroes every cached key and resets the statistics on clear", async () => {
+    const derivations = { count: 0 };
+    const derivedKey = await getOrDerive(derivations, "salt");
+
+    DerivedKeyCache.clear();
+
+    expect(derivedKey.every((byte) => byte === 0)).toBe(true);
+    expect(DerivedKeyCache.getStats()).toEqual({ size: 0, hits: 0, misses: 0, evictions: 0 });
+  });
+
+  test("serves repeated decryption of ENC2 values with the same salt from the cache", async () => {
+    const encValue = await encryptLegacy("s3cret", SECRET_KEY);
+    DerivedKeyCache.clear();
+
+    expect(await EncryptionService.decrypt(encValue, SECRET_KEY)).toBe("s3cret");
+    expect(await EncryptionService.decrypt(encValue, SECRET_KEY)).toBe("s3cret");
+
+    expect(DerivedKeyCache.getStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+});
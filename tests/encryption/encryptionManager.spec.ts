@@ -0,0 +1,174 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import CryptoValueGenerator from "../../src/cryptography/service/cryptoValueGenerator";
+import EncryptionManager from "../../src/cryptography/manager/encryptionManager";
+import EncryptionService from "../../src/cryptography/service/encryptionService";
+import { CRYPTO_CONFIG } from "../../src/cryptography/types/crypto.config";
+import SecretFileManager from "../../src/configuration/environment/manager/secretFileManager";
+import StagesFileManager from "../../src/configuration/environment/manager/stagesFileManager";
+import { encryptLegacy } from "./helpers/legacyEncryption";
+import { getEnvironmentPath, useTemporaryEnvironment, writeEnvironmentFile } from "./helpers/temporaryEnvironment";
+
+useTemporaryEnvironment();
+
+async function readStageVariables(): Promise<Record<string, string>> {
+  return StagesFileManager.readEnvironmentVariables(getEnvironmentPath(".env.dev"));
+}
+
+async function decryptStageFile(): Promise<Record<string, string>> {
+  const lines = await StagesFileManager.readEnvironmentFileAsLines(getEnvironmentPath(".env.dev"));
+  return EncryptionManager.decryptVariables(
+    "dev",
+    StagesFileManager.extractEnvironmentVariables(lines),
+    StagesFileManager.extractFileHeader(lines),
+  );
+}
+
+test.describe("EncryptionManager", () => {
+  test.beforeEach(async () => {
+    writeEnvironmentFile(".env.dev", "USERNAME=admin\nPASSWORD=s3cret\nTOKEN=t0ken\n");
+    await CryptoValueGenerator.generateStageSecretKey("dev");
+  });
+
+  test("keeps every change of overlapping encryptions of one stage file", async () => {
+    await Promise.all([
+      EncryptionManager.encryptStageVariables("dev", ["PASSWORD"]),
+      EncryptionManager.encryptStageVariables("dev", ["TOKEN"]),
+      StagesFileManager.updateEnvironmentVariables(getEnvironmentPath(".env.dev"), { USERNAME: "root" }),
+    ]);
+
+    const variables = await readStageVariables();
+    expect(EncryptionService.isEncrypted(variables.PASSWORD)).toBe(true);
+    expect(EncryptionService.isEncrypted(variables.TOKEN)).toBe(true);
+    expect(variables.USERNAME).toBe("root");
+  });
+
+  test("encrypts listed variables and reports those it cannot find", async () => {
+    const summary = await EncryptionManager.encryptStageVariables("dev", ["PASSWORD", "MISSING"]);
+
+    expect(summary).toEqual({ encrypted: ["PASSWORD"], skipped: [], failed: ["MISSING"] });
+    expect((await readStageVariables()).USERNAME).toBe("admin");
+    expect(await decryptStageFile()).toEqual({ PASSWORD: "s3cret" });
+  });
+
+  test("encrypts the variables whose names match a pattern", async () => {
+    const summary = await EncryptionManager.encryptStageVariables("dev", /^(PASSWORD|TOKEN)$/);
+
+    expect(summary.encrypted).toEqual(["PASSWORD", "TOKEN"]);
+    expect((await readStageVariables()).USERNAME).toBe("admin");
+  });
+
+  test("skips encrypted and empty values when encrypting all variables", async () => {
+    writeEnvironmentFile(".env.dev", "USERNAME=admin\nPASSWORD=s3cret\nTOKEN=t0ken\nEMPTY=\n");
+    await EncryptionManager.encryptStageVariables("dev", ["PASSWORD"]);
+    const encryptedPassword = (await readStageVariables()).PASSWORD;
+
+    const summary = await EncryptionManager.encryptStageVariables("dev");
+
+    expect(summary).toEqual({ encrypted: ["USERNAME", "TOKEN"], skipped: ["PASSWORD", "EMPTY"], failed: [] });
+    expect((await readStageVariables()).PASSWORD).toBe(encryptedPassword);
+    expect(await decryptStageFile()).toEqual({
+      USERNAME: "admin",
+      PASSWORD: "s3cret",
+      TOKEN: "t0ken",
+    });
+  });
+
+  test("refuses to encrypt a stage without a secret key", async () => {
+    writeEnvironmentFile(".env.qa", "PASSWORD=s3cret\n");
+
+    await expect(EncryptionManager.encryptStageVariables("qa")).rejects.toThrow("QA_SECRET_KEY");
+    expect((await StagesFileManager.readEnvironmentVariables(getEnvironmentPath(".env.qa"))).PASSWORD).toBe("s3cret");
+  });
+});
+
+test.describe("EncryptionManager Argon2 profile", () => {
+  const savedProfile = process.env.ARGON2_PROFILE;
+
+  test.afterEach(() => {
+    if (savedProfile === undefined) {
+      delete process.env.ARGON2_PROFILE;
+    } else {
+      process.env.ARGON2_PROFILE = savedProfile;
+    }
+  });
+
+  test("uses the profile named by ARGON2_PROFILE over the stage profile", () => {
+    process.env.ARGON2_PROFILE = "sensitive";
+
+    expect(EncryptionManager.getArgon2Parameters("dev")).toEqual(CRYPTO_CONFIG.ARGON2_PROFILES.sensitive);
+  });
+
+  test("rejects unknown profile names, including inherited object keys", () => {
+    for (const profile of ["fastest", "toString", "constructor", "__proto__"]) {
+      process.env.ARGON2_PROFILE = profile;
+
+      expect(() => EncryptionManager.getArgon2Parameters("dev")).toThrow(/Unknown ARGON2_PROFILE/);
+    }
+  });
+});
+
+test.describe("EncryptionManager key ring", () => {
+  const CI_KEY_VARIABLES = ["GITHUB_ACTIONS", "DEV_SECRET_KEY_V1", "DEV_SECRET_KEY_V2", "DEV_SECRET_KEY_ACTIVE"];
+
+  test.beforeEach(async () => {
+    writeEnvironmentFile(".env.dev", "PASSWORD=s3cret\nTOKEN=t0ken\n");
+    await CryptoValueGenerator.generateStageKeyVersion("dev");
+  });
+
+  test.afterEach(() => {
+    for (const variable of CI_KEY_VARIABLES) {
+      delete process.env[variable];
+    }
+  });
+
+  test("tags values with the active key version and decrypts each with the key its ID names", async () => {
+    await EncryptionManager.encryptStageVariables("dev", ["PASSWORD"]);
+    expect(await CryptoValueGenerator.generateStageKeyVersion("dev")).toBe("V2");
+    await EncryptionManager.encryptStageVariables("dev", ["TOKEN"]);
+
+    const variables = await readStageVariables();
+    expect(EncryptionService.getKeyId(variables.PASSWORD)).toBe("V1");
+    expect(EncryptionService.getKeyId(variables.TOKEN)).toBe("V2");
+    expect(await decryptStageFile()).toEqual({ PASSWORD: "s3cret", TOKEN: "t0ken" });
+
+    await SecretFileManager.setActiveKeyVersion("dev", "V1");
+    expect(await decryptStageFile()).toEqual({ PASSWORD: "s3cret", TOKEN: "t0ken" });
+  });
+
+  test("does not fall back to other keys for a value whose key ID is not in the key ring", async () => {
+    await EncryptionManager.encryptStageVariables("dev", ["PASSWORD"]);
+    const encryptedPassword = (await readStageVariables()).PASSWORD;
+    writeEnvironmentFile(".env.dev", `PASSWORD=${encryptedPassword.replace("V1", "V9")}\n`);
+
+    await expect(decryptStageFile()).rejects.toThrow('Failed to decrypt 1 variable(s) for stage "dev": PASSWORD');
+  });
+
+  test("tries every key of the ring for ENC2 values without a key ID", async () => {
+    const { keys } = await SecretFileManager.getStageKeyRing("dev");
+    await CryptoValueGenerator.generateStageKeyVersion("dev");
+
+    const variables = await EncryptionManager.decryptVariables("dev", {
+      PASSWORD: await encryptLegacy("s3cret", keys.V1),
+    });
+
+    expect(variables).toEqual({ PASSWORD: "s3cret" });
+  });
+
+  test("reads the key ring from CI variables instead of the secret file", async () => {
+    await EncryptionManager.encryptStageVariables("dev", ["PASSWORD"]);
+    await CryptoValueGenerator.generateStageKeyVersion("dev");
+    await EncryptionManager.encryptStageVariables("dev", ["TOKEN"]);
+    const { keys } = await SecretFileManager.getStageKeyRing("dev");
+    fs.rmSync(getEnvironmentPath(".env.secret"));
+
+    process.env.GITHUB_ACTIONS = "true";
+    process.env.DEV_SECRET_KEY_V1 = keys.V1;
+    process.env.DEV_SECRET_KEY_V2 = keys.V2;
+    process.env.DEV_SECRET_KEY_ACTIVE = "V2";
+    expect(await decryptStageFile()).toEqual({ PASSWORD: "s3cret", TOKEN: "t0ken" });
+
+    delete process.env.DEV_SECRET_KEY_V2;
+    await expect(decryptStageFile()).rejects.toThrow("does not provide DEV_SECRET_KEY_V2");
+  });
+});
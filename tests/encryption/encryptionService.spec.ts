@@ -0,0 +1,129 @@
+import { test, expect } from "@playwright/test";
+import EncryptionService from "../../src/cryptography/service/encryptionService";
+import { CRYPTO_CONFIG, CRYPTO_CONSTANTS } from "../../src/cryptography/types/crypto.config";
+import { encryptLegacy } from "./helpers/legacyEncryption";
+
+const SECRET_KEY = "test-secret-key-0123456789abcdef";
+const WRONG_SECRET_KEY = "wrong-secret-key-0123456789abcdef";
+const PLAIN_TEXT = "p@ss${word}:with;separators=ü";
+const ARGON2_PARAMETERS = CRYPTO_CONFIG.ARGON2_PROFILES.interactive;
+
+/**
+ * Flips the first byte of the cipher text, the last part of every format
+ */
+function tamperCipherText(encValue: string): string {
+  const parts = encValue.split(":");
+  const cipherText = Buffer.from(parts[parts.length - 1], "base64");
+  cipherText[0] ^= 0xff;
+  parts[parts.length - 1] = cipherText.toString("base64");
+  return parts.join(":");
+}
+
+test.describe("EncryptionService ENC2", () => {
+  test("decrypts a legacy value", async () => {
+    const encValue = await encryptLegacy(PLAIN_TEXT, SECRET_KEY);
+
+    expect(encValue.startsWith("ENC2:")).toBe(true);
+    expect(await EncryptionService.decrypt(encValue, SECRET_KEY)).toBe(PLAIN_TEXT);
+  });
+
+  test("rejects the wrong key and tampered cipher text", async () => {
+    const encValue = await encryptLegacy(PLAIN_TEXT, SECRET_KEY);
+
+    await expect(EncryptionService.decrypt(encValue, WRONG_SECRET_KEY)).rejects.toThrow();
+    await expect(EncryptionService.decrypt(tamperCipherText(encValue), SECRET_KEY)).rejects.toThrow();
+  });
+});
+
+test.describe("EncryptionService ENC3", () => {
+  test("round-trips a value and records its key ID and Argon2 parameters", async () => {
+    const encValue = await EncryptionService.encrypt(PLAIN_TEXT, SECRET_KEY, {
+      keyId: "V2",
+      argon2Parameters: ARGON2_PARAMETERS,
+    });
+
+    expect(encValue.startsWith("ENC3:")).toBe(true);
+    expect(EncryptionService.getKeyId(encValue)).toBe("V2");
+    expect(EncryptionService.parseEncryptedValue(encValue).argon2Parameters).toEqual(ARGON2_PARAMETERS);
+    expect(await EncryptionService.decrypt(encValue, SECRET_KEY)).toBe(PLAIN_TEXT);
+  });
+
+  test("uses a fresh salt and iv for every value", async () => {
+    const options = { argon2Parameters: ARGON2_PARAMETERS };
+    const first = await EncryptionService.encrypt(PLAIN_TEXT, SECRET_KEY, options);
+    const second = await EncryptionService.encrypt(PLAIN_TEXT, SECRET_KEY, options);
+
+    expect(first).not.toBe(second);
+  });
+
+  test("rejects the wrong key and tampered cipher text", async () => {
+    const encValue = await EncryptionService.encrypt(PLAIN_TEXT, SECRET_KEY, {
+      argon2Parameters: ARGON2_PARAMETERS,
+    });
+
+    await expect(EncryptionService.decrypt(encValue, WRONG_SECRET_KEY)).rejects.toThrow();
+    await expect(EncryptionService.decrypt(tamperCipherText(encValue), SECRET_KEY)).rejects.toThrow();
+  });
+});
+
+test.describe("EncryptionService ENC4", () => {
+  const fileHeader = EncryptionService.createFileHeader(ARGON2_PARAMETERS);
+
+  test("round-trips a value against its file header", async () => {
+    const encValue = await EncryptionService.encrypt(PLAIN_TEXT, SECRET_KEY, {
+      keyId: "V1",
+      fileHeader,
+    });
+
+    expect(encValue.startsWith("ENC4:")).toBe(true);
+    expect(EncryptionService.requiresFileHeader(encValue)).toBe(true);
+    expect(EncryptionService.getKeyId(encValue)).toBe("V1");
+    expect(await EncryptionService.decrypt(encValue, SECRET_KEY, fileHeader)).toBe(PLAIN_TEXT);
+  });
+
+  test("round-trips the file header through its comment line", () => {
+    const line = EncryptionService.formatFileHeader(fileHeader);
+
+    expect(line.startsWith(CRYPTO_CONSTANTS.FILE_HEADER.PREFIX)).toBe(true);
+    expect(EncryptionService.parseFileHeader(line)).toEqual(fileHeader);
+  });
+
+  test("rejects the wrong key, tampered cipher text and another file header", async () => {
+    const encValue = await EncryptionService.encrypt(PLAIN_TEXT, SECRET_KEY, { fileHeader });
+    const otherHeader = EncryptionService.createFileHeader(ARGON2_PARAMETERS);
+
+    await expect(EncryptionService.decrypt(encValue, WRONG_SECRET_KEY, fileHeader)).rejects.toThrow();
+    await expect(EncryptionService.decrypt(tamperCipherText(encValue), SECRET_KEY, fileHeader)).rejects.toThrow();
+    await expect(EncryptionService.decrypt(encValue, SECRET_KEY, otherHeader)).rejects.toThrow();
+  });
+
+  test("requires the file header to decrypt", async () => {
+    const encValue = await EncryptionService.encrypt(PLAIN_TEXT, SECRET_KEY, { fileHeader });
+
+    await expect(EncryptionService.decrypt(encValue, SECRET_KEY)).rejects.toThrow(/need the encryption header/);
+  });
+});
+
+test.describe("EncryptionService raw keys", () => {
+  test("round-trips a value and rejects another key", async () => {
+    const rawKey = EncryptionService.deriveSnapshotKey(SECRET_KEY);
+    const encValue = await EncryptionService.encryptWithRawKey(PLAIN_TEXT, rawKey);
+
+    expect(await EncryptionService.decryptWithRawKey(encValue, rawKey)).toBe(PLAIN_TEXT);
+    await expect(
+      EncryptionService.decryptWithRawKey(encValue, EncryptionService.deriveSnapshotKey(WRONG_SECRET_KEY)),
+    ).rejects.toThrow();
+    await expect(EncryptionService.decryptWithRawKey(tamperCipherText(encValue), rawKey)).rejects.toThrow();
+  });
+});
+
+test.describe("EncryptionService format detection", () => {
+  test("recognizes every encrypted format and rejects malformed values", () => {
+    expect(EncryptionService.isEncrypted("ENC2:a:b:c")).toBe(true);
+    expect(EncryptionService.isEncrypted("ENC3:kid=V1:a:b:c")).toBe(true);
+    expect(EncryptionService.isEncrypted("ENC4::a:b")).toBe(true);
+    expect(EncryptionService.isEncrypted("plain")).toBe(false);
+    expect(EncryptionService.isEncrypted(undefined)).toBe(false);
+    expect(() => EncryptionService.parseEncryptedValue("ENC3:kid=V1:a:b")).toThrow(/expected 5 parts/);
+  });
+});
@@ -0,0 +1,152 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import CryptoValueGenerator from "../../src/cryptography/service/cryptoValueGenerator";
+import EncryptionManager from "../../src/cryptography/manager/encryptionManager";
+import EncryptionService from "../../src/cryptography/service/encryptionService";
+import { CRYPTO_TYPE, OUTPUT_FORMAT } from "../../src/cryptography/types/crypto.config";
+import EnvironmentFileManager from "../../src/configuration/environment/manager/filePath/EnvironmentFileManager";
+import StagesFileManager from "../../src/configuration/environment/manager/stagesFileManager";
+import logger from "../../src/utils/logger/loggerManager";
+import { getEnvironmentPath, useTemporaryEnvironment, writeEnvironmentFile } from "./helpers/temporaryEnvironment";
+
+useTemporaryEnvironment();
+
+test.describe("EnvironmentFileManager", () => {
+  test("keeps a secret file variable that a stage file overrides", async () => {
+    await CryptoValueGenerator.generateStageSecretKey("dev");
+    fs.appendFileSync(getEnvironmentPath(".env.secret"), "SHARED=from-secret\nSECRET_ONLY=hidden\n");
+    writeEnvironmentFile(".env.dev", "SHARED=from-stage\n");
+
+    const config = await EnvironmentFileManager.getInstance().loadStageConfig("dev");
+
+    expect(config.get("SHARED")).toBe("from-stage");
+    expect(config.getProvenance("SHARED")).toMatchObject({ source: ".env.dev", overridden: [".env.secret"] });
+    expect(config.has("SECRET_ONLY")).toBe(false);
+    expect(config.has("DEV_SECRET_KEY")).toBe(false);
+  });
+
+  test.describe("decrypting load", () => {
+    test.beforeEach(async () => {
+      writeEnvironmentFile(".env.dev", "USERNAME=admin\nPASSWORD=s3cret\n");
+      await CryptoValueGenerator.generateStageSecretKey("dev");
+      await EncryptionManager.encryptStageVariables("dev", ["PASSWORD"]);
+    });
+
+    test("decrypts encrypted values only when asked and records them per file", async () => {
+      const manager = EnvironmentFileManager.getInstance();
+
+      const encryptedConfig = await manager.loadStageConfig("dev");
+      expect(EncryptionService.isEncrypted(encryptedConfig.get("PASSWORD"))).toBe(true);
+
+      const config = await manager.loadStageConfig("dev", { decryptValues: true });
+      expect(config.getSecret("PASSWORD")).toBe("s3cret");
+      expect(config.get("USERNAME")).toBe("admin");
+      expect(config.getLoadedFiles().find(({ fileName }) => fileName === ".env.dev")).toMatchObject({
+        fileType: "stage",
+        decryptedVariables: ["PASSWORD"],
+      });
+    });
+
+    test("fails with a clear message when the stage key is missing or wrong", async () => {
+      const manager = EnvironmentFileManager.getInstance();
+      const secretContent = fs.readFileSync(getEnvironmentPath(".env.secret"), "utf8");
+
+      writeEnvironmentFile(".env.secret", secretContent.replace(/^DEV_SECRET_KEY=.*$/m, ""));
+      await expect(manager.loadStageConfig("dev", { decryptValues: true })).rejects.toThrow(
+        "Secret key variable 'DEV_SECRET_KEY' not found",
+      );
+
+      const otherKey = CryptoValueGenerator.generate({
+        type: CRYPTO_TYPE.SECRET_KEY,
+        outputFormat: OUTPUT_FORMAT.BASE64,
+      }) as string;
+      writeEnvironmentFile(".env.secret", secretContent.replace(/^DEV_SECRET_KEY=.*$/m, `DEV_SECRET_KEY=${otherKey}`));
+      await expect(manager.loadStageConfig("dev", { decryptValues: true })).rejects.toThrow(
+        'Failed to decrypt 1 variable(s) for stage "dev": PASSWORD',
+      );
+    });
+  });
+
+  test.describe("precedence", () => {
+    test.beforeEach(() => {
+      writeEnvironmentFile(".env", "BASE_URL=https://base.example.com\nTIMEOUT=1000\nRETRIES=1\n");
+      writeEnvironmentFile(".env.dev", "BASE_URL=https://dev.example.com\nTIMEOUT=2000\n");
+      writeEnvironmentFile(".env.dev.local", "TIMEOUT=3000\n");
+    });
+
+    test.afterEach(() => {
+      delete process.env.TIMEOUT;
+      delete process.env.ENV_PREFER_PROCESS_ENV;
+    });
+
+    test("lets .env.<stage> override .env and .env.<stage>.local override both", async () => {
+      const config = await EnvironmentFileManager.getInstance().loadStageConfig("dev");
+
+      expect(config.toObject()).toEqual({ BASE_URL: "https://dev.example.com", TIMEOUT: "3000", RETRIES: "1" });
+      expect(config.getProvenance("TIMEOUT")).toEqual({
+        key: "TIMEOUT",
+        source: ".env.dev.local",
+        sourceType: "local",
+        overridden: [".env", ".env.dev"],
+      });
+      expect(config.getProvenance("RETRIES")).toMatchObject({ source: ".env", sourceType: "base", overridden: [] });
+    });
+
+    test("keeps the file value over the process environment unless told to prefer it", async () => {
+      const manager = EnvironmentFileManager.getInstance();
+      process.env.TIMEOUT = "5000";
+
+      const fileConfig = await manager.loadStageConfig("dev");
+      expect(fileConfig.get("TIMEOUT")).toBe("3000");
+      expect(fileConfig.getProvenance("TIMEOUT")?.overridden).toEqual(["process.env", ".env", ".env.dev"]);
+
+      const processConfig = await manager.loadStageConfig("dev", { preferProcessEnv: true });
+      expect(processConfig.get("TIMEOUT")).toBe("5000");
+      expect(processConfig.getProvenance("TIMEOUT")).toMatchObject({
+        source: "process.env",
+        sourceType: "process",
+        overridden: [".env", ".env.dev", ".env.dev.local"],
+      });
+
+      process.env.ENV_PREFER_PROCESS_ENV = "true";
+      expect((await manager.loadStageConfig("dev")).get("TIMEOUT")).toBe("5000");
+      expect((await manager.loadStageConfig("dev", { preferProcessEnv: false })).get("TIMEOUT")).toBe("3000");
+    });
+
+    test("reports variables set only in the process environment as coming from it", () => {
+      process.env.TIMEOUT = "5000";
+
+      expect(EnvironmentFileManager.getInstance().getProvenance("TIMEOUT")).toEqual({
+        key: "TIMEOUT",
+        source: "process.env",
+        sourceType: "process",
+        overridden: [],
+      });
+      expect(EnvironmentFileManager.getInstance().getProvenance("NOT_SET_ANYWHERE")).toBeUndefined();
+    });
+
+    test("logs the source of each variable with decrypted values masked", async () => {
+      await CryptoValueGenerator.generateStageSecretKey("dev");
+      await StagesFileManager.updateEnvironmentVariables(getEnvironmentPath(".env.dev"), { API_TOKEN: "t0ken" });
+      await EncryptionManager.encryptStageVariables("dev", ["API_TOKEN"]);
+      const messages: string[] = [];
+      const originalDebug = logger.debug;
+      logger.debug = ((message: string) => {
+        messages.push(message);
+        return logger;
+      }) as typeof logger.debug;
+
+      try {
+        await EnvironmentFileManager.getInstance().loadStageConfig("dev", { decryptValues: true });
+      } finally {
+        logger.debug = originalDebug;
+      }
+
+      const table = messages.find((message) => message.startsWith('Environment variable sources for stage "dev"'));
+      expect(table).toMatch(/^TIMEOUT\s+\.env\.dev\.local\s+\.env, \.env\.dev\s+3000$/m);
+      expect(table).toMatch(/^API_TOKEN\s+\.env\.dev\s+-\s+\*{8}$/m);
+      expect(table).not.toContain("t0ken");
+      expect(table).toMatch(/^DEV_SECRET_KEY\s+\.env\.secret\s+-\s+\*{8}$/m);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { test, expect } from "@playwright/test";
+import dotenv from "dotenv";
+import EnvironmentFileParser from "../../src/configuration/environment/parser/environmentFileParser";
+
+function parseVariables(content: string): Record<string, string> {
+  return EnvironmentFileParser.getVariables(EnvironmentFileParser.parse(content));
+}
+
+function writeAndRead(value: string, content = "KEY=\n"): { raw: string; value: string } {
+  const document = EnvironmentFileParser.setVariables(EnvironmentFileParser.parse(content), { KEY: value });
+  const raw = EnvironmentFileParser.format(document);
+  return { raw, value: parseVariables(raw).KEY };
+}
+
+test.describe("EnvironmentFileParser escapes", () => {
+  test("resolves only \\n and \\r in double quotes, like dotenv", () => {
+    const variables = parseVariables(
+      ['WINDOWS_PATH="C:\\\\dir"', 'QUOTED="say \\"hi\\""', 'TAB="a\\tb"', 'LINES="a\\nb\\rc"', "SINGLE='a\\nb'"].join(
+        "\n",
+      ),
+    );
+
+    expect(variables).toEqual({
+      WINDOWS_PATH: "C:\\\\dir",
+      QUOTED: 'say \\"hi\\"',
+      TAB: "a\\tb",
+      LINES: "a\nb\rc",
+      SINGLE: "a\\nb",
+    });
+  });
+
+  test("writes values in a quoting style that reads them back unchanged", () => {
+    const values = ["C:\\dir\\", 'say "hi"', "a\\nb", "line one\nline two", 'it\'s a "test"', " padded ", "a#b"];
+
+    for (const value of values) {
+      for (const content of ["KEY=\n", 'KEY="old"\n']) {
+        const written = writeAndRead(value, content);
+        expect(written.value).toBe(value);
+        expect(dotenv.parse(written.raw).KEY).toBe(value);
+      }
+    }
+  });
+
+  test("keeps the current quoting style when the value fits it", () => {
+    expect(writeAndRead("new value", "KEY='old'\n").raw).toBe("KEY='new value'\n");
+    expect(writeAndRead("a\nb", 'KEY="old"\n').raw).toBe('KEY="a\\nb"\n');
+  });
+});
+
+test.describe("EnvironmentFileParser dotenv parity", () => {
+  const cases: Record<string, string> = {
+    "unquoted hash": "KEY=a#b\nSPACED=a # comment\nEMPTY=#only a comment\nURL=https://example.com/#anchor",
+    "quoted hash": "DOUBLE=\"a#b\" # comment\nSINGLE='a # b'\nBACKTICK=`#a`",
+    escapes: 'PATH="C:\\\\dir"\nQUOTE="say \\"hi\\""\nTAB="a\\tb"\nLINES="a\\nb\\rc"\nSINGLE=\'a\\nb\'',
+    multiline: "PEM=\"-----BEGIN KEY-----\nabc\n-----END KEY-----\"\nNEXT=1\nSINGLE='line one\nline two'",
+    "whitespace and export": "  export SPACED =   value  \nTRAILING='a'   # comment\nEMPTY=\nQUOTED_EMPTY=\"\"",
+    "text after a quote": 'MIXED="a"b\nUNCLOSED="abc',
+  };
+
+  for (const [name, content] of Object.entries(cases)) {
+    test(`reads ${name} like dotenv.parse`, () => {
+      expect(parseVariables(content)).toEqual(dotenv.parse(content));
+    });
+  }
+});
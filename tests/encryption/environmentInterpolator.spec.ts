@@ -0,0 +1,61 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import CryptoValueGenerator from "../../src/cryptography/service/cryptoValueGenerator";
+import EncryptionManager from "../../src/cryptography/manager/encryptionManager";
+import EnvironmentInterpolator from "../../src/configuration/environment/parser/environmentInterpolator";
+import EnvironmentFileManager from "../../src/configuration/environment/manager/filePath/EnvironmentFileManager";
+import {
+  getEnvironmentPath,
+  readEnvironmentFile,
+  useTemporaryEnvironment,
+  writeEnvironmentFile,
+} from "./helpers/temporaryEnvironment";
+
+useTemporaryEnvironment();
+
+test.describe("EnvironmentInterpolator", () => {
+  test("keeps literal variables as written while expanding references to them", () => {
+    const { values, report } = EnvironmentInterpolator.interpolate(
+      { PASSWORD: "p@ss${word}x", LOGIN: "admin:${PASSWORD}", MISSING: "${UNSET}-${OTHER:-default}" },
+      {},
+      new Set(["PASSWORD"]),
+    );
+
+    expect(values).toEqual({ LOGIN: "admin:p@ss${word}x", MISSING: "-default" });
+    expect(report.find((entry) => entry.key === "MISSING")?.unresolved).toEqual(["UNSET"]);
+  });
+
+  test("loads a decrypted secret that contains a reference unchanged", async () => {
+    writeEnvironmentFile(".env.dev", "PASSWORD='p@ss${word}x'\nLOGIN=admin:${PASSWORD}\n");
+    await CryptoValueGenerator.generateStageSecretKey("dev");
+    await EncryptionManager.encryptStageVariables("dev", ["PASSWORD"]);
+    expect(readEnvironmentFile(".env.dev")).not.toContain("p@ss");
+
+    const config = await EnvironmentFileManager.getInstance().loadStageConfig("dev", {
+      decryptValues: true,
+    });
+
+    expect(config.getSecret("PASSWORD")).toBe("p@ss${word}x");
+    expect(config.get("LOGIN")).toBe("admin:p@ss${word}x");
+  });
+
+  test("does not expand secret keys or secret file variables into other values", async () => {
+    await CryptoValueGenerator.generateStageSecretKey("dev");
+    fs.appendFileSync(getEnvironmentPath(".env.secret"), "SECRET_ONLY=hidden\n");
+    writeEnvironmentFile(
+      ".env.dev",
+      "KEY_COPY=${DEV_SECRET_KEY:-none}\nSECRET_COPY=${SECRET_ONLY}\nCI_KEY_COPY=${QA_SECRET_KEY}\n",
+    );
+    process.env.QA_SECRET_KEY = "qa-key-from-ci";
+
+    try {
+      const config = await EnvironmentFileManager.getInstance().loadStageConfig("dev");
+
+      expect(config.get("KEY_COPY")).toBe("none");
+      expect(config.get("SECRET_COPY")).toBe("");
+      expect(config.get("CI_KEY_COPY")).toBe("");
+    } finally {
+      delete process.env.QA_SECRET_KEY;
+    }
+  });
+});
@@ -0,0 +1,16 @@
+import { test, expect } from "@playwright/test";
+import EnvironmentSchemaValidator from "../../src/configuration/environment/schema/environmentSchemaValidator";
+
+test.describe("EnvironmentSchemaValidator", () => {
+  test("masks the value of a variable stored encrypted even if the schema does not declare it", () => {
+    const violations = EnvironmentSchemaValidator.validate(
+      "dev",
+      { PORT: "not-a-port", TIMEOUT: "soon" },
+      new Set(["PORT"]),
+      { PORT: { type: "int" }, TIMEOUT: { type: "int" } },
+    );
+
+    expect(violations.find(({ variable }) => variable === "PORT")?.value).toBe("********");
+    expect(violations.find(({ variable }) => variable === "TIMEOUT")?.value).toBe("soon");
+  });
+});
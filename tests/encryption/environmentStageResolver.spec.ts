@@ -0,0 +1,94 @@
+import { test, expect } from "@playwright/test";
+import EnvironmentStageResolver from "../../src/configuration/environment/stages/environmentStageResolver";
+import EnvironmentDetector from "../../src/configuration/detector/environmentDetector";
+import StageProjectFactory from "../../src/configuration/environment/stages/stageProjectFactory";
+import type { EnvironmentStageDefinition } from "../../src/configuration/environment/types/environment.types";
+
+// The resolver reads the stage config once; these tests swap in their own config and caches
+const resolverState = EnvironmentStageResolver as unknown as {
+  stageConfig: Record<string, EnvironmentStageDefinition>;
+  stageNames?: Map<string, string>;
+  settingsCache: Map<string, unknown>;
+};
+
+function withStageConfig(config: Record<string, EnvironmentStageDefinition>, check: () => void): void {
+  const { stageConfig, stageNames, settingsCache } = resolverState;
+  resolverState.stageConfig = config;
+  resolverState.stageNames = undefined;
+  resolverState.settingsCache = new Map();
+
+  try {
+    check();
+  } finally {
+    Object.assign(resolverState, { stageConfig, stageNames, settingsCache });
+  }
+}
+
+test.describe("EnvironmentStageResolver", () => {
+  const savedVariables: Record<string, string | undefined> = {};
+
+  test.beforeEach(() => {
+    for (const variable of ["ENV", "NODE_ENV", "ENV_STAGES"]) {
+      savedVariables[variable] = process.env[variable];
+      delete process.env[variable];
+    }
+  });
+
+  test.afterEach(() => {
+    for (const [variable, value] of Object.entries(savedVariables)) {
+      if (value === undefined) {
+        delete process.env[variable];
+      } else {
+        process.env[variable] = value;
+      }
+    }
+  });
+
+  test("resolves stages by name or alias, ignoring case and surrounding spaces", () => {
+    expect(EnvironmentStageResolver.resolveStage("qa")).toBe("qa");
+    expect(EnvironmentStageResolver.resolveStage(" Staging ")).toBe("preprod");
+    expect(EnvironmentStageResolver.isStage("staging")).toBe(false);
+
+    process.env.ENV = "STAGING";
+    expect(EnvironmentDetector.getCurrentEnvironmentStage()).toBe("preprod");
+  });
+
+  test("rejects unknown stage names", () => {
+    expect(EnvironmentStageResolver.resolveStage("sit")).toBeUndefined();
+    expect(EnvironmentStageResolver.isStage("toString")).toBe(false);
+
+    process.env.ENV = "sit";
+    expect(EnvironmentDetector.getCurrentEnvironmentStage()).toBe("dev");
+
+    process.env.ENV_STAGES = "qa,sit";
+    expect(() => StageProjectFactory.getSelectedStages()).toThrow('Unknown stage "sit" in ENV_STAGES');
+  });
+
+  test("inherits the settings a stage does not declare along the extends chain", () => {
+    expect(EnvironmentStageResolver.getLineage("prod")).toEqual(["prod", "preprod"]);
+    expect(EnvironmentStageResolver.getSettings("prod")).toEqual({
+      logLevel: "error",
+      keyRotation: { maxAgeDays: 90, strict: true },
+      argon2Profile: "sensitive",
+    });
+    expect(EnvironmentStageResolver.extendsStage("prod", "preprod")).toBe(true);
+    expect(EnvironmentStageResolver.extendsStage("preprod", "prod")).toBe(false);
+  });
+
+  test("rejects extends cycles", () => {
+    withStageConfig({ qa: { extends: "uat" }, uat: { extends: "dev" }, dev: { extends: "qa" } }, () => {
+      expect(() => EnvironmentStageResolver.getLineage("qa")).toThrow(
+        'Stage config: "extends" forms a cycle: qa → uat → dev → qa',
+      );
+      expect(() => EnvironmentStageResolver.resolveStage("uat")).toThrow('"extends" forms a cycle');
+    });
+  });
+
+  test("rejects an alias claimed by two stages", () => {
+    withStageConfig({ qa: { aliases: ["test"] }, sit: { aliases: ["Test"] } }, () => {
+      expect(() => EnvironmentStageResolver.resolveStage("qa")).toThrow(
+        'Stage config: alias "Test" of "sit" is already used by "qa"',
+      );
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import CryptoValueGenerator from "../../src/cryptography/service/cryptoValueGenerator";
+import EnvironmentTransaction from "../../src/configuration/environment/manager/environmentTransaction";
+import ManifestFileManager from "../../src/configuration/environment/manager/manifestFileManager";
+import StagesFileManager from "../../src/configuration/environment/manager/stagesFileManager";
+import {
+  getEnvironmentPath,
+  readEnvironmentFile,
+  useTemporaryEnvironment,
+  writeEnvironmentFile,
+} from "./helpers/temporaryEnvironment";
+
+useTemporaryEnvironment();
+
+test.describe("EnvironmentTransaction", () => {
+  test.beforeEach(async () => {
+    writeEnvironmentFile(".env.dev", "USERNAME=admin\n");
+    await CryptoValueGenerator.generateStageSecretKey("dev");
+    await StagesFileManager.updateEnvironmentVariables(getEnvironmentPath(".env.dev"), { TOKEN: "t0ken" });
+  });
+
+  test("writes nothing until commit, then applies every staged change", async () => {
+    const transaction = EnvironmentTransaction.begin()
+      .storeKeyInFile(getEnvironmentPath(".env.secret"), "DEV_SECRET_KEY", "new-key")
+      .updateEnvironmentVariables(getEnvironmentPath(".env.dev"), { USERNAME: "root" });
+
+    expect(readEnvironmentFile(".env.secret")).not.toContain("new-key");
+    expect(readEnvironmentFile(".env.dev")).toContain("USERNAME=admin");
+
+    await transaction.commit();
+
+    expect(readEnvironmentFile(".env.secret")).toContain("DEV_SECRET_KEY=new-key");
+    const variables = await StagesFileManager.readEnvironmentVariables(getEnvironmentPath(".env.dev"));
+    expect(variables).toEqual({ USERNAME: "root", TOKEN: "t0ken" });
+    expect(await ManifestFileManager.verifyManifest(getEnvironmentPath(".env.dev"), variables)).toBe("valid");
+  });
+
+  test("restores every file and manifest when a change fails", async () => {
+    const secretContent = readEnvironmentFile(".env.secret");
+    const stageContent = readEnvironmentFile(".env.dev");
+    const manifestContent = readEnvironmentFile(".env.dev.manifest");
+    fs.mkdirSync(getEnvironmentPath(".env.qa"));
+
+    const transaction = EnvironmentTransaction.begin()
+      .storeKeyInFile(getEnvironmentPath(".env.secret"), "DEV_SECRET_KEY", "new-key")
+      .updateEnvironmentVariables(getEnvironmentPath(".env.dev"), { USERNAME: "root" })
+      .writeEnvironmentFileLines(getEnvironmentPath(".env.uat"), ["USERNAME=uat"])
+      .writeEnvironmentFileLines(getEnvironmentPath(".env.qa"), ["USERNAME=qa"]);
+
+    await expect(transaction.commit()).rejects.toThrow();
+
+    expect(readEnvironmentFile(".env.secret")).toBe(secretContent);
+    expect(readEnvironmentFile(".env.dev")).toBe(stageContent);
+    expect(readEnvironmentFile(".env.dev.manifest")).toBe(manifestContent);
+    expect(fs.existsSync(getEnvironmentPath(".env.uat"))).toBe(false);
+  });
+
+  test("discards staged changes on rollback and refuses to be reused", async () => {
+    const stageContent = readEnvironmentFile(".env.dev");
+    const transaction = EnvironmentTransaction.begin().updateEnvironmentVariables(getEnvironmentPath(".env.dev"), {
+      USERNAME: "root",
+    });
+
+    transaction.rollback();
+
+    expect(readEnvironmentFile(".env.dev")).toBe(stageContent);
+    await expect(transaction.commit()).rejects.toThrow("Transaction has already been committed or rolled back");
+    expect(() => transaction.updateEnvironmentVariables(getEnvironmentPath(".env.dev"), {})).toThrow(
+      "already been committed",
+    );
+  });
+
+  test("commits the changes staged by run only if its callback succeeds", async () => {
+    const stageContent = readEnvironmentFile(".env.dev");
+
+    await expect(
+      EnvironmentTransaction.run((transaction) => {
+        transaction.updateEnvironmentVariables(getEnvironmentPath(".env.dev"), { USERNAME: "root" });
+        throw new Error("staging failed");
+      }),
+    ).rejects.toThrow("staging failed");
+    expect(readEnvironmentFile(".env.dev")).toBe(stageContent);
+
+    const result = await EnvironmentTransaction.run((transaction) => {
+      transaction.updateEnvironmentVariables(getEnvironmentPath(".env.dev"), { USERNAME: "root" });
+      return "done";
+    });
+    expect(result).toBe("done");
+    expect(readEnvironmentFile(".env.dev")).toContain("USERNAME=root");
+  });
+});
@@ -0,0 +1,56 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import { FileLockManager } from "../../src/utils/fileManager/fileLockManager";
+import { getEnvironmentPath, useTemporaryEnvironment, writeEnvironmentFile } from "./helpers/temporaryEnvironment";
+
+useTemporaryEnvironment();
+
+function writeLockFile(filePath: string, owner: { pid: number; acquiredAt: number }): string {
+  const lockPath = FileLockManager.getLockPath(filePath);
+  fs.writeFileSync(lockPath, JSON.stringify(owner));
+  return lockPath;
+}
+
+test.describe("FileLockManager", () => {
+  test("takes over a lock left behind by an expired owner", async () => {
+    writeEnvironmentFile(".env.dev", "");
+    const filePath = getEnvironmentPath(".env.dev");
+    const lockPath = writeLockFile(filePath, { pid: process.pid, acquiredAt: Date.now() - 60_000 });
+
+    const result = await FileLockManager.withLock(filePath, async () => {
+      const owner = JSON.parse(fs.readFileSync(lockPath, "utf8"));
+      return owner.acquiredAt as number;
+    });
+
+    expect(Date.now() - result).toBeLessThan(60_000);
+    expect(fs.existsSync(lockPath)).toBe(false);
+    expect(fs.readdirSync(getEnvironmentPath()).filter((name) => name.endsWith(".stale"))).toEqual([]);
+  });
+
+  test("puts back a live lock that replaced the stale lock a waiter set out to remove", async () => {
+    writeEnvironmentFile(".env.dev", "");
+    const filePath = getEnvironmentPath(".env.dev");
+    // Another waiter already removed the stale lock and created this fresh one
+    const liveOwner = { pid: process.pid, acquiredAt: Date.now() };
+    const lockPath = writeLockFile(filePath, liveOwner);
+    const lockManager = FileLockManager as unknown as {
+      removeStaleLock(lockPath: string, staleMs: number): Promise<void>;
+    };
+
+    await lockManager.removeStaleLock(lockPath, 30_000);
+
+    expect(JSON.parse(fs.readFileSync(lockPath, "utf8"))).toEqual(liveOwner);
+    expect(fs.readdirSync(getEnvironmentPath()).filter((name) => name.endsWith(".stale"))).toEqual([]);
+  });
+
+  test("keeps a live lock and times out", async () => {
+    writeEnvironmentFile(".env.dev", "");
+    const filePath = getEnvironmentPath(".env.dev");
+    const lockPath = writeLockFile(filePath, { pid: process.pid, acquiredAt: Date.now() });
+
+    await expect(FileLockManager.withLock(filePath, async () => undefined, { timeoutMs: 200 })).rejects.toThrow(
+      /Timed out/,
+    );
+    expect(fs.existsSync(lockPath)).toBe(true);
+  });
+});
@@ -0,0 +1,14 @@
+import EncryptionService from "../../../src/cryptography/service/encryptionService";
+import { CRYPTO_CONFIG, CRYPTO_CONSTANTS } from "../../../src/cryptography/types/crypto.config";
+
+/**
+ * Builds an ENC2 value, which EncryptionService only decrypts: ENC2 carries just the salt, iv
+ * and cipher text and always uses the default Argon2 parameters
+ */
+export async function encryptLegacy(plainText: string, secretKey: string): Promise<string> {
+  const encValue = await EncryptionService.encrypt(plainText, secretKey, {
+    argon2Parameters: CRYPTO_CONFIG.ARGON2_PARAMETERS,
+  });
+  const { salt, iv, cipherText } = EncryptionService.parseEncryptedValue(encValue);
+  return `${CRYPTO_CONSTANTS.FORMAT.PREFIX}${[salt, iv, cipherText].join(":")}`;
+}
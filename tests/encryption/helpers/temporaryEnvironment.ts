@@ -0,0 +1,71 @@
+import { test } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// Variables that make EnvironmentDetector report CI, which reads keys from the process environment
+const CI_VARIABLES = [
+  "CI",
+  "GITHUB_ACTIONS",
+  "GITLAB_CI",
+  "JENKINS_URL",
+  "TF_BUILD",
+  "CIRCLECI",
+  "BITBUCKET_BUILD_NUMBER",
+  "TEAMCITY_VERSION",
+  "BUILDKITE",
+  "TRAVIS",
+];
+
+let workingDirectory: string | undefined;
+
+/**
+ * Runs the tests of a file against an empty envs directory in a temporary working directory,
+ * outside CI mode. The environment file paths are resolved once per process, so the working
+ * directory is created once per worker and the envs directory is emptied before each test.
+ */
+export function useTemporaryEnvironment(): void {
+  const savedVariables: Record<string, string | undefined> = {};
+
+  test.beforeAll(() => {
+    workingDirectory ??= fs.mkdtempSync(path.join(os.tmpdir(), "env-test-"));
+    process.chdir(workingDirectory);
+
+    for (const variable of CI_VARIABLES) {
+      savedVariables[variable] = process.env[variable];
+      delete process.env[variable];
+    }
+  });
+
+  test.beforeEach(() => {
+    fs.rmSync(getEnvironmentPath(), { recursive: true, force: true });
+    fs.mkdirSync(getEnvironmentPath());
+  });
+
+  test.afterAll(() => {
+    for (const [variable, value] of Object.entries(savedVariables)) {
+      if (value !== undefined) {
+        process.env[variable] = value;
+      }
+    }
+  });
+}
+
+/**
+ * Resolves a path inside the temporary envs directory
+ * @param segments - Path segments below envs, e.g. ".env.dev"
+ */
+export function getEnvironmentPath(...segments: string[]): string {
+  if (!workingDirectory) {
+    throw new Error("useTemporaryEnvironment() must be called in the test file");
+  }
+  return path.join(workingDirectory, "envs", ...segments);
+}
+
+export function writeEnvironmentFile(fileName: string, content: string): void {
+  fs.writeFileSync(getEnvironmentPath(fileName), content, "utf8");
+}
+
+export function readEnvironmentFile(fileName: string): string {
+  return fs.readFileSync(getEnvironmentPath(fileName), "utf8");
+}
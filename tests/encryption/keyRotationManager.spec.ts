@@ -0,0 +1,207 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import CryptoValueGenerator from "../../src/cryptography/service/cryptoValueGenerator";
+import EncryptionManager from "../../src/cryptography/manager/encryptionManager";
+import KeyRotationManager from "../../src/cryptography/manager/keyRotationManager";
+import SecretFileManager from "../../src/configuration/environment/manager/secretFileManager";
+import EnvironmentFileManager from "../../src/configuration/environment/manager/filePath/EnvironmentFileManager";
+import {
+  getEnvironmentPath,
+  readEnvironmentFile,
+  useTemporaryEnvironment,
+  writeEnvironmentFile,
+} from "./helpers/temporaryEnvironment";
+
+useTemporaryEnvironment();
+
+async function getSecretKey(keyName: string): Promise<string | undefined> {
+  return SecretFileManager.getKeyValue(getEnvironmentPath(".env.secret"), keyName);
+}
+
+test.describe("KeyRotationManager", () => {
+  test.beforeEach(async () => {
+    writeEnvironmentFile(".env.dev", "USERNAME=admin\nPASSWORD=s3cret\n");
+    await CryptoValueGenerator.generateStageSecretKey("dev");
+    await EncryptionManager.encryptStageVariables("dev", ["PASSWORD"]);
+  });
+
+  test("stores the new key, keeps the old one as previous and re-encrypts the stage file", async () => {
+    const oldKey = await getSecretKey("DEV_SECRET_KEY");
+    const encryptedBefore = readEnvironmentFile(".env.dev");
+
+    const result = await KeyRotationManager.rotateStageKey("dev");
+
+    expect(result.reEncryptedVariables).toEqual(["PASSWORD"]);
+    expect(await getSecretKey("DEV_SECRET_KEY_PREVIOUS")).toBe(oldKey);
+    expect(await getSecretKey("DEV_SECRET_KEY")).not.toBe(oldKey);
+    expect(readEnvironmentFile(".env.dev")).not.toBe(encryptedBefore);
+
+    const config = await EnvironmentFileManager.getInstance().loadStageConfig("dev", {
+      decryptValues: true,
+      integrityMode: "strict",
+    });
+    expect(config.getSecret("PASSWORD")).toBe("s3cret");
+    expect(config.get("USERNAME")).toBe("admin");
+  });
+
+  test("rotates a key ring to a new active version", async () => {
+    await KeyRotationManager.rotateStageKey("dev");
+    await CryptoValueGenerator.generateStageKeyVersion("dev");
+    await EncryptionManager.migrateToFileHeader("dev");
+
+    const result = await KeyRotationManager.rotateStageKey("dev");
+
+    expect(result.keyId).toBe("V2");
+    expect(await getSecretKey("DEV_SECRET_KEY_ACTIVE")).toBe("V2");
+    const config = await EnvironmentFileManager.getInstance().loadStageConfig("dev", {
+      decryptValues: true,
+    });
+    expect(config.getSecret("PASSWORD")).toBe("s3cret");
+  });
+
+  test("runs overlapping rotations one after the other", async () => {
+    const oldKey = await getSecretKey("DEV_SECRET_KEY");
+
+    const [first, second] = await Promise.all([
+      KeyRotationManager.rotateStageKey("dev"),
+      KeyRotationManager.rotateStageKey("dev"),
+    ]);
+
+    expect(first.reEncryptedVariables).toEqual(["PASSWORD"]);
+    expect(second.reEncryptedVariables).toEqual(["PASSWORD"]);
+    const previousKey = await getSecretKey("DEV_SECRET_KEY_PREVIOUS");
+    expect(previousKey).not.toBe(oldKey);
+    expect(previousKey).not.toBe(await getSecretKey("DEV_SECRET_KEY"));
+    const config = await EnvironmentFileManager.getInstance().loadStageConfig("dev", {
+      decryptValues: true,
+      integrityMode: "strict",
+    });
+    expect(config.getSecret("PASSWORD")).toBe("s3cret");
+  });
+
+  test("gives overlapping key ring rotations different key versions", async () => {
+    await KeyRotationManager.rotateStageKey("dev");
+    await CryptoValueGenerator.generateStageKeyVersion("dev");
+    await EncryptionManager.migrateToFileHeader("dev");
+
+    const results = await Promise.all([
+      KeyRotationManager.rotateStageKey("dev"),
+      KeyRotationManager.rotateStageKey("dev"),
+    ]);
+
+    expect(results.map((result) => result.keyId).sort()).toEqual(["V2", "V3"]);
+    expect(await getSecretKey("DEV_SECRET_KEY_ACTIVE")).toBe("V3");
+    const config = await EnvironmentFileManager.getInstance().loadStageConfig("dev", {
+      decryptValues: true,
+    });
+    expect(config.getSecret("PASSWORD")).toBe("s3cret");
+  });
+});
+
+test.describe("KeyRotationManager key age", () => {
+  /**
+   * Moves the recorded creation time of a key back by the given number of days
+   */
+  function ageKey(keyName: string, days: number): void {
+    const metadata = JSON.parse(readEnvironmentFile(".env.secret.meta.json"));
+    metadata[keyName].createdAt = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    writeEnvironmentFile(".env.secret.meta.json", JSON.stringify(metadata));
+  }
+
+  /**
+   * Creates a manager without the stages the shared instance already loaded
+   */
+  function createEnvironmentFileManager(): EnvironmentFileManager {
+    return new (EnvironmentFileManager as unknown as new () => EnvironmentFileManager)();
+  }
+
+  test.afterEach(() => {
+    delete process.env.KEY_MAX_AGE_DAYS;
+    delete process.env.KEY_ROTATION_STRICT;
+  });
+
+  test("records when a key was created and when it was rotated", async () => {
+    writeEnvironmentFile(".env.dev", "USERNAME=admin\n");
+    await CryptoValueGenerator.generateStageSecretKey("dev");
+    const created = await SecretFileManager.getKeyMetadata("DEV_SECRET_KEY");
+    expect(created?.createdAt).toBeDefined();
+    expect(created?.rotatedAt).toBeUndefined();
+
+    await KeyRotationManager.rotateStageKey("dev");
+    const rotated = await SecretFileManager.getKeyMetadata("DEV_SECRET_KEY");
+    expect(rotated?.rotatedAt).toBe(rotated?.createdAt);
+
+    await CryptoValueGenerator.generateStageKeyVersion("dev");
+    expect(await SecretFileManager.getKeyMetadata("DEV_SECRET_KEY_V1")).toBeDefined();
+  });
+
+  test("measures the age of the active key version against the stage policy", async () => {
+    await CryptoValueGenerator.generateStageSecretKey("dev");
+    ageKey("DEV_SECRET_KEY", 120);
+    await CryptoValueGenerator.generateStageKeyVersion("dev");
+
+    expect(await KeyRotationManager.checkKeyAge("dev")).toEqual({
+      keyName: "DEV_SECRET_KEY_V1",
+      ageDays: 0,
+      maxAgeDays: 90,
+      expired: false,
+    });
+
+    ageKey("DEV_SECRET_KEY_V1", 91);
+    expect(await KeyRotationManager.checkKeyAge("dev")).toMatchObject({ ageDays: 91, expired: true });
+  });
+
+  test("reports no age for a key without recorded metadata", async () => {
+    await CryptoValueGenerator.generateStageSecretKey("dev");
+    fs.rmSync(getEnvironmentPath(".env.secret.meta.json"));
+
+    expect(await KeyRotationManager.checkKeyAge("dev")).toEqual({
+      keyName: "DEV_SECRET_KEY",
+      maxAgeDays: 90,
+      expired: false,
+    });
+    await expect(KeyRotationManager.enforceRotationPolicy("dev")).resolves.toBeUndefined();
+  });
+
+  test("warns about expired keys of lenient stages and fails for strict ones", async () => {
+    await CryptoValueGenerator.generateStageSecretKey("dev");
+    await CryptoValueGenerator.generateStageSecretKey("preprod");
+    ageKey("DEV_SECRET_KEY", 100);
+    ageKey("PREPROD_SECRET_KEY", 100);
+
+    await expect(KeyRotationManager.enforceRotationPolicy("dev")).resolves.toBeUndefined();
+    await expect(KeyRotationManager.enforceRotationPolicy("preprod")).rejects.toThrow(
+      'Secret key "PREPROD_SECRET_KEY" for stage "preprod" is 100 days old, exceeding the maximum of 90 days.',
+    );
+  });
+
+  test("applies KEY_MAX_AGE_DAYS and KEY_ROTATION_STRICT over the stage policy", async () => {
+    await CryptoValueGenerator.generateStageSecretKey("dev");
+    await CryptoValueGenerator.generateStageSecretKey("preprod");
+    ageKey("DEV_SECRET_KEY", 40);
+    ageKey("PREPROD_SECRET_KEY", 100);
+
+    process.env.KEY_MAX_AGE_DAYS = "30";
+    process.env.KEY_ROTATION_STRICT = "true";
+    await expect(KeyRotationManager.enforceRotationPolicy("dev")).rejects.toThrow("exceeding the maximum of 30 days");
+
+    process.env.KEY_ROTATION_STRICT = "false";
+    await expect(KeyRotationManager.enforceRotationPolicy("preprod")).resolves.toBeUndefined();
+
+    process.env.KEY_MAX_AGE_DAYS = "not-a-number";
+    expect(await KeyRotationManager.checkKeyAge("dev")).toMatchObject({ maxAgeDays: 90, expired: false });
+  });
+
+  test("checks the key age when loading a stage with its secret file", async () => {
+    await CryptoValueGenerator.generateStageSecretKey("dev");
+    writeEnvironmentFile(".env.dev", "USERNAME=admin\n");
+    ageKey("DEV_SECRET_KEY", 100);
+
+    await expect(createEnvironmentFileManager().loadStages(["dev"])).resolves.toBeUndefined();
+
+    process.env.KEY_ROTATION_STRICT = "true";
+    await expect(createEnvironmentFileManager().loadStages(["dev"])).rejects.toThrow(
+      'Secret key "DEV_SECRET_KEY" for stage "dev"',
+    );
+  });
+});
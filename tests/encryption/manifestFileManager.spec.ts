@@ -0,0 +1,126 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import CryptoValueGenerator from "../../src/cryptography/service/cryptoValueGenerator";
+import IntegrityService from "../../src/cryptography/service/integrityService";
+import EnvironmentFileManager from "../../src/configuration/environment/manager/filePath/EnvironmentFileManager";
+import ManifestFileManager from "../../src/configuration/environment/manager/manifestFileManager";
+import StagesFileManager from "../../src/configuration/environment/manager/stagesFileManager";
+import {
+  getEnvironmentPath,
+  readEnvironmentFile,
+  useTemporaryEnvironment,
+  writeEnvironmentFile,
+} from "./helpers/temporaryEnvironment";
+
+useTemporaryEnvironment();
+
+const SECRET_KEY = "test-secret-key-0123456789abcdef";
+
+async function verifyStageFile(): Promise<string> {
+  const filePath = getEnvironmentPath(".env.dev");
+  return ManifestFileManager.verifyManifest(filePath, await StagesFileManager.readEnvironmentVariables(filePath));
+}
+
+test.describe("IntegrityService", () => {
+  test("signs the key/value pairs regardless of their order", () => {
+    const signature = IntegrityService.sign({ USERNAME: "admin", TOKEN: "t0ken" }, SECRET_KEY);
+
+    expect(IntegrityService.verify({ TOKEN: "t0ken", USERNAME: "admin" }, SECRET_KEY, signature)).toBe(true);
+  });
+
+  test("rejects changed values, added variables and other keys", () => {
+    const signature = IntegrityService.sign({ USERNAME: "admin" }, SECRET_KEY);
+
+    expect(IntegrityService.verify({ USERNAME: "root" }, SECRET_KEY, signature)).toBe(false);
+    expect(IntegrityService.verify({ USERNAME: "admin", EXTRA: "" }, SECRET_KEY, signature)).toBe(false);
+    expect(IntegrityService.verify({ USERNAME: "admin" }, `${SECRET_KEY}x`, signature)).toBe(false);
+    expect(IntegrityService.verify({ USERNAME: "admin" }, SECRET_KEY, "c2hvcnQ=")).toBe(false);
+  });
+});
+
+test.describe("ManifestFileManager", () => {
+  test.beforeEach(async () => {
+    writeEnvironmentFile(".env.dev", "USERNAME=admin\n");
+    await CryptoValueGenerator.generateStageSecretKey("dev");
+  });
+
+  test("signs stage files whenever the library writes them", async () => {
+    expect(await verifyStageFile()).toBe("missing");
+
+    await StagesFileManager.updateEnvironmentVariables(getEnvironmentPath(".env.dev"), { TOKEN: "t0ken" });
+
+    expect(JSON.parse(readEnvironmentFile(".env.dev.manifest"))).toMatchObject({
+      algorithm: "HMAC-SHA256",
+      keyName: "DEV_SECRET_KEY",
+    });
+    expect(await verifyStageFile()).toBe("valid");
+  });
+
+  test("detects files edited outside the library, but not new comments or reordering", async () => {
+    await StagesFileManager.updateEnvironmentVariables(getEnvironmentPath(".env.dev"), { TOKEN: "t0ken" });
+
+    writeEnvironmentFile(".env.dev", "# reordered by hand\nTOKEN=t0ken\n\nUSERNAME=admin\n");
+    expect(await verifyStageFile()).toBe("valid");
+
+    writeEnvironmentFile(".env.dev", "TOKEN=t0ken\nUSERNAME=root\n");
+    expect(await verifyStageFile()).toBe("invalid");
+  });
+
+  test("reports manifests whose signing key is gone as unverifiable", async () => {
+    await StagesFileManager.updateEnvironmentVariables(getEnvironmentPath(".env.dev"), { TOKEN: "t0ken" });
+
+    writeEnvironmentFile(".env.secret", "QA_SECRET_KEY=other\n");
+
+    expect(await verifyStageFile()).toBe("unverifiable");
+  });
+
+  test("signs only stage files of stages with a secret key", async () => {
+    expect(await ManifestFileManager.writeManifest(getEnvironmentPath(".env"), { USERNAME: "admin" })).toBe(false);
+    expect(await ManifestFileManager.writeManifest(getEnvironmentPath(".env.qa"), { USERNAME: "admin" })).toBe(false);
+    expect(fs.existsSync(getEnvironmentPath(".env.qa.manifest"))).toBe(false);
+  });
+});
+
+test.describe("EnvironmentFileManager integrity check", () => {
+  test.beforeEach(async () => {
+    writeEnvironmentFile(".env.dev", "USERNAME=admin\n");
+    await CryptoValueGenerator.generateStageSecretKey("dev");
+    await StagesFileManager.updateEnvironmentVariables(getEnvironmentPath(".env.dev"), { TOKEN: "t0ken" });
+    writeEnvironmentFile(".env.dev", "USERNAME=root\nTOKEN=t0ken\n");
+  });
+
+  test.afterEach(() => {
+    delete process.env.ENV_INTEGRITY_MODE;
+  });
+
+  test("refuses an edited stage file in strict mode", async () => {
+    await expect(
+      EnvironmentFileManager.getInstance().loadStageConfig("dev", { integrityMode: "strict" }),
+    ).rejects.toThrow('Environment file for stage "dev" was modified outside the encryption tooling: .env.dev');
+  });
+
+  test("loads an edited stage file in warn and off mode", async () => {
+    const manager = EnvironmentFileManager.getInstance();
+
+    expect((await manager.loadStageConfig("dev", { integrityMode: "warn" })).get("USERNAME")).toBe("root");
+    expect((await manager.loadStageConfig("dev", { integrityMode: "off" })).get("USERNAME")).toBe("root");
+  });
+
+  test("reads the mode from ENV_INTEGRITY_MODE unless the load options set it", async () => {
+    const manager = EnvironmentFileManager.getInstance();
+    process.env.ENV_INTEGRITY_MODE = "strict";
+
+    await expect(manager.loadStageConfig("dev")).rejects.toThrow("was modified outside the encryption tooling");
+    expect((await manager.loadStageConfig("dev", { integrityMode: "warn" })).get("USERNAME")).toBe("root");
+  });
+
+  test("refuses an unsigned stage file only in strict mode", async () => {
+    fs.rmSync(getEnvironmentPath(".env.dev.manifest"));
+    const manager = EnvironmentFileManager.getInstance();
+
+    expect((await manager.loadStageConfig("dev")).get("USERNAME")).toBe("root");
+    await expect(manager.loadStageConfig("dev", { integrityMode: "strict" })).rejects.toThrow(
+      "has no integrity manifest",
+    );
+  });
+});
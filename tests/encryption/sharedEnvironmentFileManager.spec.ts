@@ -0,0 +1,79 @@
+import { test, expect } from "@playwright/test";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import SharedEnvironmentFileManager from "../../src/configuration/environment/manager/sharedEnvironmentFileManager";
+import EnvironmentFileManager from "../../src/configuration/environment/manager/filePath/EnvironmentFileManager";
+import { ENVIRONMENT_CONSTANTS } from "../../src/configuration/environment/constants/environment.constants";
+
+const SHARED_VARIABLES = [ENVIRONMENT_CONSTANTS.SHARED_FILE_VAR, ENVIRONMENT_CONSTANTS.SHARED_KEY_VAR];
+
+test.describe("SharedEnvironmentFileManager", () => {
+  // Global setup already shared an environment with this worker; put it back afterwards
+  const savedVariables: Record<string, string | undefined> = {};
+
+  test.beforeEach(() => {
+    for (const variable of SHARED_VARIABLES) {
+      savedVariables[variable] = process.env[variable];
+    }
+  });
+
+  test.afterEach(async () => {
+    await SharedEnvironmentFileManager.remove();
+    for (const [variable, value] of Object.entries(savedVariables)) {
+      if (value !== undefined) {
+        process.env[variable] = value;
+      }
+    }
+  });
+
+  test("shares every stage and loads the one a worker asks for", async () => {
+    const loadedFiles = [
+      { fileName: ".env.qa", fileType: "stage" as const, variables: ["BASE_URL"], decryptedVariables: [] },
+    ];
+    await SharedEnvironmentFileManager.publish([
+      { stage: "dev", variables: { BASE_URL: "https://dev.example.com" }, loadedFiles: [] },
+      { stage: "qa", variables: { BASE_URL: "https://qa.example.com" }, loadedFiles },
+    ]);
+
+    const qaConfig = await EnvironmentFileManager.getInstance().loadSharedStageConfig("qa");
+
+    expect(qaConfig?.stage).toBe("qa");
+    expect(qaConfig?.get("BASE_URL")).toBe("https://qa.example.com");
+    expect(qaConfig?.getProvenance("BASE_URL")?.source).toBe(".env.qa");
+    expect(await EnvironmentFileManager.getInstance().loadSharedStageConfig("uat")).toBeUndefined();
+  });
+
+  test("encrypts the shared file with a one-time key that only the process environment holds", async () => {
+    const filePath = await SharedEnvironmentFileManager.publish([
+      { stage: "dev", variables: { PASSWORD: "s3cret" }, loadedFiles: [] },
+    ]);
+
+    expect(fs.readFileSync(filePath, "utf8")).not.toContain("s3cret");
+    expect((await SharedEnvironmentFileManager.load("dev"))?.variables).toEqual({ PASSWORD: "s3cret" });
+
+    process.env[ENVIRONMENT_CONSTANTS.SHARED_KEY_VAR] = crypto.randomBytes(32).toString("base64");
+    await expect(SharedEnvironmentFileManager.load("dev")).rejects.toThrow();
+  });
+
+  test("falls back to the environment files once the shared file is gone", async () => {
+    const filePath = await SharedEnvironmentFileManager.publish([
+      { stage: "dev", variables: { BASE_URL: "https://dev.example.com" }, loadedFiles: [] },
+    ]);
+    fs.rmSync(filePath);
+
+    expect(SharedEnvironmentFileManager.isAvailable()).toBe(true);
+    expect(await SharedEnvironmentFileManager.load("dev")).toBeUndefined();
+  });
+
+  test("deletes the shared file and forgets its path and key on remove", async () => {
+    const filePath = await SharedEnvironmentFileManager.publish([
+      { stage: "dev", variables: { BASE_URL: "https://dev.example.com" }, loadedFiles: [] },
+    ]);
+
+    await SharedEnvironmentFileManager.remove();
+
+    expect(fs.existsSync(filePath)).toBe(false);
+    expect(SharedEnvironmentFileManager.isAvailable()).toBe(false);
+    expect(await SharedEnvironmentFileManager.load("dev")).toBeUndefined();
+  });
+});
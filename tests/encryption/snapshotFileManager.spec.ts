@@ -0,0 +1,117 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import CryptoValueGenerator from "../../src/cryptography/service/cryptoValueGenerator";
+import EncryptionManager from "../../src/cryptography/manager/encryptionManager";
+import KeyRotationManager from "../../src/cryptography/manager/keyRotationManager";
+import SnapshotFileManager from "../../src/configuration/environment/manager/snapshotFileManager";
+import StagesFileManager from "../../src/configuration/environment/manager/stagesFileManager";
+import EnvironmentFileManager from "../../src/configuration/environment/manager/filePath/EnvironmentFileManager";
+import {
+  getEnvironmentPath,
+  readEnvironmentFile,
+  useTemporaryEnvironment,
+  writeEnvironmentFile,
+} from "./helpers/temporaryEnvironment";
+
+useTemporaryEnvironment();
+
+test.describe("SnapshotFileManager", () => {
+  test.beforeEach(async () => {
+    writeEnvironmentFile(".env.dev", "USERNAME=admin\nPASSWORD=s3cret\n");
+    await CryptoValueGenerator.generateStageSecretKey("dev");
+    await EncryptionManager.encryptStageVariables("dev", ["PASSWORD"]);
+  });
+
+  test("restores snapshots taken before a key rotation", async () => {
+    const stageFilePath = getEnvironmentPath(".env.dev");
+    const secretFilePath = getEnvironmentPath(".env.secret");
+    const stageContentBefore = readEnvironmentFile(".env.dev");
+    const secretContentBefore = readEnvironmentFile(".env.secret");
+
+    const secretSnapshotCount = (await SnapshotFileManager.listSnapshots(secretFilePath)).length;
+
+    await KeyRotationManager.rotateStageKey("dev");
+
+    // Newest first; the rotation stores several keys, so the secret file snapshot taken before
+    // its first write is the oldest new one
+    const [stageSnapshot] = await SnapshotFileManager.listSnapshots(stageFilePath);
+    const secretSnapshots = await SnapshotFileManager.listSnapshots(secretFilePath);
+    const secretSnapshot = secretSnapshots[secretSnapshots.length - secretSnapshotCount - 1];
+    expect(await SnapshotFileManager.getSnapshotContent(stageFilePath, stageSnapshot.id)).toBe(stageContentBefore);
+    expect(await SnapshotFileManager.getSnapshotContent(secretFilePath, secretSnapshot.id)).toBe(secretContentBefore);
+
+    await SnapshotFileManager.restoreSnapshot(secretFilePath, secretSnapshot.id);
+    await SnapshotFileManager.restoreSnapshot(stageFilePath, stageSnapshot.id);
+
+    expect(readEnvironmentFile(".env.dev")).toBe(stageContentBefore);
+    expect(readEnvironmentFile(".env.secret")).toBe(secretContentBefore);
+    const config = await EnvironmentFileManager.getInstance().loadStageConfig("dev", {
+      decryptValues: true,
+    });
+    expect(config.getSecret("PASSWORD")).toBe("s3cret");
+  });
+
+  test("reads stage file snapshots encrypted with earlier key ring versions", async () => {
+    const stageFilePath = getEnvironmentPath(".env.dev");
+    const stageContentBefore = readEnvironmentFile(".env.dev");
+    await CryptoValueGenerator.generateStageKeyVersion("dev");
+
+    await KeyRotationManager.rotateStageKey("dev");
+    await KeyRotationManager.rotateStageKey("dev");
+
+    // Newest first: taken before the second rotation, the first rotation and the encryption
+    const [, firstRotationSnapshot] = await SnapshotFileManager.listSnapshots(stageFilePath);
+    expect(firstRotationSnapshot.keyNames).toEqual(["DEV_SECRET_KEY", "DEV_SECRET_KEY_V1", "DEV_SECRET_KEY_V2"]);
+
+    // Of the keys the snapshot was taken with, only V1 is left
+    writeEnvironmentFile(".env.secret", readEnvironmentFile(".env.secret").replace(/^DEV_SECRET_KEY(_V2)?=.*$/gm, ""));
+    expect(await SnapshotFileManager.getSnapshotContent(stageFilePath, firstRotationSnapshot.id)).toBe(
+      stageContentBefore,
+    );
+  });
+
+  test("reads a secret file snapshot after one stage key is replaced", async () => {
+    const secretFilePath = getEnvironmentPath(".env.secret");
+    await CryptoValueGenerator.generateStageSecretKey("qa");
+    const secretContentBefore = readEnvironmentFile(".env.secret");
+
+    await CryptoValueGenerator.generateStageSecretKey("dev", { skipIfExists: false });
+
+    const [secretSnapshot] = await SnapshotFileManager.listSnapshots(secretFilePath);
+    expect(secretSnapshot.keyNames).toEqual(["DEV_SECRET_KEY", "QA_SECRET_KEY"]);
+    expect(await SnapshotFileManager.getSnapshotContent(secretFilePath, secretSnapshot.id)).toBe(secretContentBefore);
+  });
+
+  test("restores a stage file snapshot in CI with the key from the CI environment", async () => {
+    const stageFilePath = getEnvironmentPath(".env.dev");
+    const stageContentBefore = readEnvironmentFile(".env.dev");
+    const secretKey = /^DEV_SECRET_KEY=(.*)$/m.exec(readEnvironmentFile(".env.secret"))![1];
+    await StagesFileManager.writeEnvironmentFileLines(stageFilePath, ["USERNAME=changed"]);
+    const [stageSnapshot] = await SnapshotFileManager.listSnapshots(stageFilePath);
+
+    fs.rmSync(getEnvironmentPath(".env.secret"));
+    process.env.CI = "true";
+    process.env.DEV_SECRET_KEY = secretKey;
+
+    try {
+      await SnapshotFileManager.restoreSnapshot(stageFilePath, stageSnapshot.id);
+    } finally {
+      delete process.env.CI;
+      delete process.env.DEV_SECRET_KEY;
+    }
+
+    expect(readEnvironmentFile(".env.dev")).toBe(stageContentBefore);
+  });
+
+  test("refuses to read a snapshot when none of the keys that encrypted it is stored", async () => {
+    const stageFilePath = getEnvironmentPath(".env.dev");
+    await KeyRotationManager.rotateStageKey("dev");
+    const [stageSnapshot] = await SnapshotFileManager.listSnapshots(stageFilePath);
+
+    writeEnvironmentFile(".env.secret", "DEV_SECRET_KEY=another-key\n");
+
+    await expect(SnapshotFileManager.getSnapshotContent(stageFilePath, stageSnapshot.id)).rejects.toThrow(
+      'None of the keys that encrypted snapshot "' + stageSnapshot.id + '" is stored: DEV_SECRET_KEY',
+    );
+  });
+});
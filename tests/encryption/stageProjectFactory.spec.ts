@@ -0,0 +1,31 @@
+import { test, expect } from "@playwright/test";
+import StageProjectFactory from "../../src/configuration/environment/stages/stageProjectFactory";
+
+const BASE_PROJECTS = [
+  { name: "setup" },
+  { name: "chromium", dependencies: ["setup"], teardown: "cleanup" },
+  { name: "cleanup" },
+];
+
+test.describe("StageProjectFactory", () => {
+  test("keeps the project names when a single stage is selected", () => {
+    const projects = StageProjectFactory.createProjects(BASE_PROJECTS, ["qa"]);
+
+    expect(projects.map((project) => project.name)).toEqual(["setup", "chromium", "cleanup"]);
+    expect(projects[1]).toMatchObject({ dependencies: ["setup"], teardown: "cleanup", use: { stage: "qa" } });
+  });
+
+  test("prefixes the project names with the stage when several stages are selected", () => {
+    const projects = StageProjectFactory.createProjects(BASE_PROJECTS, ["dev", "qa"]);
+
+    expect(projects.map((project) => project.name)).toEqual([
+      "dev-setup",
+      "dev-chromium",
+      "dev-cleanup",
+      "qa-setup",
+      "qa-chromium",
+      "qa-cleanup",
+    ]);
+    expect(projects[4]).toMatchObject({ dependencies: ["qa-setup"], teardown: "qa-cleanup", use: { stage: "qa" } });
+  });
+});